@@ -0,0 +1,24 @@
+import { checkConstraints } from '../constraints';
+
+describe('Constraints', () => {
+  describe('checkConstraints', () => {
+    test('should accept values inside the range', () => {
+      expect(checkConstraints('n', 1, { min: 1, max: 100 })).toBeNull();
+      expect(checkConstraints('n', 100, { min: 1, max: 100 })).toBeNull();
+      expect(checkConstraints('ratio', 0.5, { min: 0, exclusiveMin: true })).toBeNull();
+    });
+
+    test('should describe range violations', () => {
+      expect(checkConstraints('n', 150, { min: 1, max: 100 })).toBe('n must be between 1 and 100');
+      expect(checkConstraints('ratio', 0, { min: 0, exclusiveMin: true })).toBe('ratio must be greater than 0');
+      expect(checkConstraints('n', 11, { max: 10 })).toBe('n must be at most 10');
+      expect(checkConstraints('n', 5, { min: 0, max: 5, exclusiveMax: true })).toBe('n must be at least 0 and less than 5');
+    });
+
+    test('should check length by unicode characters', () => {
+      expect(checkConstraints('name', '你好', { minLength: 2, maxLength: 16 })).toBeNull();
+      expect(checkConstraints('name', 'a', { minLength: 2, maxLength: 16 })).toBe('name length must be between 2 and 16');
+      expect(checkConstraints('code', 'abcd', { minLength: 3, maxLength: 3 })).toBe('code length must be exactly 3');
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { DefaultValueRegistry } from '../default_values';
+
+describe('DefaultValueRegistry', () => {
+  afterEach(() => {
+    DefaultValueRegistry.unregisterProvider('today');
+  });
+
+  test('should resolve values from the context first', () => {
+    DefaultValueRegistry.registerProvider('today', () => '2024-01-01');
+
+    expect(DefaultValueRegistry.resolve('today', { today: '2024-12-31' })).toBe('2024-12-31');
+  });
+
+  test('should fall back to registered providers', () => {
+    const provider = jest.fn((context: Record<string, any>) => `${context.year}-01-01`);
+    DefaultValueRegistry.registerProvider('today', provider);
+
+    expect(DefaultValueRegistry.resolve('today', { year: 2024 })).toBe('2024-01-01');
+    expect(provider).toHaveBeenCalledWith({ year: 2024 });
+    expect(DefaultValueRegistry.getProvider('today')).toBe(provider);
+  });
+
+  test('should prefer null context values over providers', () => {
+    DefaultValueRegistry.registerProvider('today', () => '2024-01-01');
+
+    expect(DefaultValueRegistry.resolve('today', { today: null })).toBeNull();
+  });
+
+  test('should return undefined for unknown names', () => {
+    expect(DefaultValueRegistry.resolve('today')).toBeUndefined();
+    expect(DefaultValueRegistry.getProvider('today')).toBeNull();
+    expect(DefaultValueRegistry.unregisterProvider('today')).toBe(false);
+  });
+});
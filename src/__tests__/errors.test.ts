@@ -36,6 +36,13 @@ describe('Error Classes', () => {
       expect(error.name).toBe('PatternParseError');
     });
 
+    test('should create PatternParseError with end position', () => {
+      const error = new PatternParseError('Parse failed', 'hello <name:text>', 6, 17);
+      
+      expect(error.details?.position).toBe(6);
+      expect(error.details?.end).toBe(17);
+    });
+
     test('should create PatternParseError without pattern and position', () => {
       const error = new PatternParseError('Parse failed');
       
@@ -1,4 +1,4 @@
-import { extractFieldValue } from '../field_mapping';
+import { extractFieldValue, getSegmentType } from '../field_mapping';
 import { MessageSegment } from '../types';
 
 describe('Field Mapping', () => {
@@ -74,4 +74,14 @@ describe('Field Mapping', () => {
       expect(extractFieldValue(undefinedSegment, 'field')).toBeNull();
     });
   });
+
+  describe('getSegmentType', () => {
+    test('should return string types as is', () => {
+      expect(getSegmentType({ type: 'image', data: {} })).toBe('image');
+    });
+
+    test('should resolve object-form types by name', () => {
+      expect(getSegmentType({ type: { name: 'at' }, data: {} })).toBe('at');
+    });
+  });
 });
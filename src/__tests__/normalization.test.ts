@@ -0,0 +1,44 @@
+import { normalizeText, normalizeSegments, restoreSegments } from '../normalization';
+import { MessageSegment } from '../types';
+
+describe('Normalization', () => {
+  const text = (value: string): MessageSegment => ({ type: 'text', data: { text: value } });
+
+  describe('normalizeText', () => {
+    test('should convert full-width characters to half-width', () => {
+      expect(normalizeText('１２３')).toBe('123');
+      expect(normalizeText('！ｈｅｌｐ，')).toBe('!help,');
+      expect(normalizeText('a　b')).toBe('a b');
+    });
+  });
+
+  describe('normalizeSegments', () => {
+    test('should normalize text segments without modifying the input', () => {
+      const segments = [text('ｈｉ'), { type: 'face', data: { id: 1 } }, text('ok')];
+      const normalized = normalizeSegments(segments);
+      
+      expect(normalized[0]).toEqual(text('hi'));
+      expect(normalized[1]).toBe(segments[1]);
+      expect(normalized[2]).toBe(segments[2]);
+      expect(segments[0].data.text).toBe('ｈｉ');
+    });
+  });
+
+  describe('restoreSegments', () => {
+    test('should restore whole text segments', () => {
+      const originals = [text('say'), { type: 'face', data: { id: 1 } }, text('ｔａｉｌ')];
+      const remaining = [{ type: 'face', data: { id: 1 } }, text('tail')];
+      
+      expect(restoreSegments(remaining, originals)).toEqual([{ type: 'face', data: { id: 1 } }, text('ｔａｉｌ')]);
+    });
+
+    test('should restore the suffix of a partially matched text segment', () => {
+      expect(restoreSegments([text(' me')], [text('!help ｍｅ')])).toEqual([text(' ｍｅ')]);
+      expect(restoreSegments([text('1x')], [text('say ①ｘ')])).toEqual([text('①ｘ')]);
+    });
+
+    test('should keep normalized text that cannot be aligned', () => {
+      expect(restoreSegments([text('xyz')], [text('ａｂｃ')])).toEqual([text('xyz')]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { lintPattern } from '../pattern_linter';
+
+describe('PatternLinter', () => {
+  describe('lintPattern', () => {
+    const codes = (pattern: string) => lintPattern(pattern).map(diagnostic => diagnostic.code);
+
+    test('should return no diagnostics for valid patterns', () => {
+      expect(lintPattern('hello <name:text>')).toEqual([]);
+      expect(lintPattern('ban <who:at>[ for <minutes:integer(1..60)=10> minutes]')).toEqual([]);
+      expect(lintPattern('send <msg:text> [-v|--verbose]')).toEqual([]);
+      expect(lintPattern('(add|remove) <item:word> (on|off)')).toEqual([]);
+    });
+
+    test('should report parse errors with positions', () => {
+      expect(lintPattern('hi <name:text')).toEqual([{
+        code: 'parse_error',
+        severity: 'error',
+        message: "Unmatched opening brace '<' at position 3",
+        start: 3,
+        end: 13
+      }]);
+    });
+
+    test('should report rest parameters that are not last', () => {
+      const [diagnostic] = lintPattern('add [...items] <n:number>');
+      
+      expect(diagnostic.code).toBe('rest_not_last');
+      expect(diagnostic.severity).toBe('error');
+      expect(diagnostic.start).toBe(4);
+      expect(diagnostic.end).toBe(14);
+      expect(codes('add <n:number> [...items] [-v|--verbose]')).toEqual([]);
+    });
+
+    test('should report duplicate parameter names', () => {
+      const [diagnostic] = lintPattern('move <x:number> <x:number>');
+      
+      expect(diagnostic.code).toBe('duplicate_name');
+      expect(diagnostic.start).toBe(16);
+      expect(codes('pick (a|b) (c|d)')).toEqual([]);
+      expect(codes('pick (x:a|b) [x:word]')).toEqual(['duplicate_name']);
+    });
+
+    test('should report default values that do not match the type', () => {
+      expect(codes('[n:number=abc]')).toEqual(['invalid_default']);
+      expect(codes('[n:integer=1.5]')).toEqual(['invalid_default']);
+      expect(codes('[mode:on|off=maybe]')).toEqual(['invalid_default']);
+      expect(codes('[-n|--count:integer=x]')).toEqual(['invalid_default']);
+      expect(codes('[mode:enum(on,off)i=ON] [flag:boolean=true] [name:text=abc]')).toEqual([]);
+    });
+
+    test('should report default values that violate constraints', () => {
+      const [diagnostic] = lintPattern('[n:integer(1..10)=20]');
+      
+      expect(diagnostic.code).toBe('invalid_default');
+      expect(diagnostic.message).toContain('n must be between 1 and 10');
+    });
+
+    test('should warn about parameters after greedy text', () => {
+      const diagnostics = lintPattern('say <msg:text> <n:number>');
+      
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].code).toBe('ambiguous_text');
+      expect(diagnostics[0].severity).toBe('warning');
+      expect(diagnostics[0].start).toBe(15);
+      expect(codes('say <msg:text> [n:number]')).toEqual(['unreachable_optional']);
+      expect(codes('say <msg:text> to <who:at>')).toEqual([]);
+    });
+
+    test('should not warn after delimited or line text', () => {
+      expect(codes('say <msg:text~> <n:number>')).toEqual([]);
+      expect(codes('say <msg:text$> [n:number]')).toEqual([]);
+      expect(codes('say <msg:text?> <n:number>')).toEqual(['ambiguous_text']);
+    });
+
+    test('should sort diagnostics by position', () => {
+      const diagnostics = lintPattern('[a:number=x] <b:word> <b:word>');
+      
+      expect(diagnostics.map(diagnostic => diagnostic.start)).toEqual([0, 22]);
+    });
+  });
+});
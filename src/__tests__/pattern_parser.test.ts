@@ -1,5 +1,6 @@
 import { PatternParser } from '../pattern_parser';
 import { PatternParseError } from '../errors';
+import { PatternToken } from '../pattern_token';
 
 describe('PatternParser', () => {
   describe('parse', () => {
@@ -403,4 +404,737 @@ describe('PatternParser', () => {
       expect(tokens[1].dataType).toBe('text');
     });
   });
+
+  describe('alternation', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should parse unnamed alternation', () => {
+      const tokens = PatternParser.parse('(add|remove|list) <name:word>');
+      
+      expect(tokens).toHaveLength(3);
+      expect(tokens[0].type).toBe('alternation');
+      expect(tokens[0].name).toBe('$1');
+      expect(tokens[0].alternatives).toEqual(['add', 'remove', 'list']);
+      expect(tokens[1].type).toBe('literal');
+      expect(tokens[1].value).toBe(' ');
+      expect(tokens[1].optional).toBe(true);
+      expect(tokens[2].type).toBe('parameter');
+    });
+
+    test('should parse named alternation', () => {
+      const tokens = PatternParser.parse('user (action:add|remove)');
+      
+      expect(tokens).toHaveLength(2);
+      expect(tokens[0].value).toBe('user ');
+      expect(tokens[1].type).toBe('alternation');
+      expect(tokens[1].name).toBe('action');
+      expect(tokens[1].alternatives).toEqual(['add', 'remove']);
+    });
+
+    test('should number unnamed alternations in order', () => {
+      const tokens = PatternParser.parse('(a|b)(x:c|d)(e|f)');
+      
+      expect(tokens.map(token => token.name)).toEqual(['$1', 'x', '$2']);
+    });
+
+    test('should keep parentheses without | as literal', () => {
+      const tokens = PatternParser.parse('f(x) <a:text>');
+      
+      expect(tokens[0].type).toBe('literal');
+      expect(tokens[0].value).toBe('f(x)');
+    });
+  });
+
+  describe('escapes', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should treat escaped brackets as literal text', () => {
+      const tokens = PatternParser.parse('set \\[x\\] <v:number>');
+      
+      expect(tokens).toHaveLength(3);
+      expect(tokens[0].type).toBe('literal');
+      expect(tokens[0].value).toBe('set [x]');
+      expect(tokens[1].value).toBe(' ');
+      expect(tokens[1].optional).toBe(true);
+      expect(tokens[2].type).toBe('parameter');
+      expect(tokens[2].name).toBe('v');
+    });
+
+    test('should treat escaped braces and angle brackets as literal text', () => {
+      const tokens = PatternParser.parse('\\{a\\} \\< b');
+      
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].value).toBe('{a} < b');
+    });
+
+    test('should unescape backslashes and keep other escapes', () => {
+      const tokens = PatternParser.parse('a\\\\b\\d');
+      
+      expect(tokens[0].value).toBe('a\\b\\d');
+    });
+
+    test('should treat escaped parentheses and bars as literal text', () => {
+      const tokens = PatternParser.parse('\\(a|b)');
+      
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].value).toBe('(a|b)');
+    });
+
+    test('should support escapes inside alternation', () => {
+      const tokens = PatternParser.parse('(a\\|b|c\\))');
+      
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].alternatives).toEqual(['a|b', 'c)']);
+    });
+
+    test('should support escapes inside typed literal values', () => {
+      const tokens = PatternParser.parse('{text:a\\}b}<x:text>');
+      
+      expect(tokens).toHaveLength(2);
+      expect(tokens[0].type).toBe('typed_literal');
+      expect(tokens[0].value).toBe('a}b');
+      expect(tokens[1].type).toBe('parameter');
+    });
+
+    test('should support escapes inside default values', () => {
+      const tokens = PatternParser.parse('[tag:text=\\[none\\]]');
+      
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].defaultValue).toBe('[none]');
+    });
+
+    test('should support escaped closing brace in required parameter', () => {
+      const tokens = PatternParser.parse('<a:x\\>y> tail');
+      
+      expect(tokens).toHaveLength(2);
+      expect(tokens[0].dataType).toBe('x\\>y');
+      expect(tokens[1].value).toBe(' tail');
+    });
+  });
+
+  describe('regex parameters', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should parse slash-delimited regex type', () => {
+      const tokens = PatternParser.parse('ticket <code:/[A-Z]{4}-\\d+/>');
+      const param = tokens[tokens.length - 1];
+      
+      expect(param.type).toBe('parameter');
+      expect(param.dataType).toBe('regex');
+      expect(param.regex).toEqual(/[A-Z]{4}-\d+/);
+      expect(param.matcher).toBeDefined();
+    });
+
+    test('should parse regex flags in optional parameter', () => {
+      const tokens = PatternParser.parse('[code:/abc/i]');
+      
+      expect(tokens[0].optional).toBe(true);
+      expect(tokens[0].regex?.flags).toBe('i');
+    });
+
+    test('should parse regex() form', () => {
+      const tokens = PatternParser.parse('<code:regex(\\w+)>');
+      
+      expect(tokens[0].dataType).toBe('regex');
+      expect(tokens[0].regex?.source).toBe('\\w+');
+    });
+
+    test('should throw on invalid regex', () => {
+      expect(() => PatternParser.parse('<code:/[a-/>')).toThrow(PatternParseError);
+    });
+
+    test('should not close the parameter inside the regex body', () => {
+      const closing = PatternParser.parse('<code:/a>b/>');
+      const bracket = PatternParser.parse('[code:/[\\]>]+/i] end');
+
+      expect(closing).toHaveLength(1);
+      expect(closing[0].regex).toEqual(/a>b/);
+      expect(bracket[0].regex).toEqual(/[\]>]+/i);
+      expect(bracket[bracket.length - 1].value).toBe(' end');
+    });
+
+    test('should ignore parentheses inside character classes', () => {
+      const tokens = PatternParser.parse('<code:/[(]/>');
+
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].regex?.test('(')).toBe(true);
+    });
+
+    test('should report an unterminated regex', () => {
+      expect(() => PatternParser.parse('<code:/[/]>')).toThrow('Unterminated regular expression at position 6');
+    });
+  });
+
+  describe('enum parameters', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should parse enum() type and expose choices', () => {
+      const tokens = PatternParser.parse('<mode:enum(on, off, auto)>');
+      
+      expect(tokens[0].dataType).toBe('enum');
+      expect(tokens[0].choices).toEqual(['on', 'off', 'auto']);
+      expect(tokens[0].matcher).toBeDefined();
+    });
+
+    test('should parse bar-separated choices', () => {
+      const tokens = PatternParser.parse('[mode:on|off=off]');
+      
+      expect(tokens[0].dataType).toBe('enum');
+      expect(tokens[0].choices).toEqual(['on', 'off']);
+      expect(tokens[0].defaultValue).toBe('off');
+    });
+
+    test('should throw on empty enum', () => {
+      expect(() => PatternParser.parse('<mode:enum()>')).toThrow(PatternParseError);
+    });
+  });
+
+  describe('constraints', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should parse numeric range constraints', () => {
+      const tokens = PatternParser.parse('<n:integer(1..100)>');
+      
+      expect(tokens[0].dataType).toBe('integer');
+      expect(tokens[0].constraints).toEqual({ min: 1, max: 100 });
+    });
+
+    test('should parse comparison constraints containing angle brackets', () => {
+      const tokens = PatternParser.parse('<ratio:float(>0)> [limit:number(>=0, <10)=5]');
+      
+      expect(tokens[0].constraints).toEqual({ min: 0, exclusiveMin: true });
+      expect(tokens[2].constraints).toEqual({ min: 0, max: 10, exclusiveMax: true });
+      expect(tokens[2].defaultValue).toBe(5);
+    });
+
+    test('should parse length constraints', () => {
+      const tokens = PatternParser.parse('<name:word(len 2..16)>');
+      
+      expect(tokens[0].dataType).toBe('word');
+      expect(tokens[0].constraints).toEqual({ minLength: 2, maxLength: 16 });
+    });
+
+    test('should reject invalid constraints', () => {
+      expect(() => PatternParser.parse('<n:integer(len 2..16)>')).toThrow(PatternParseError);
+      expect(() => PatternParser.parse('<name:word(1..5)>')).toThrow(PatternParseError);
+      expect(() => PatternParser.parse('<n:integer(abc)>')).toThrow(PatternParseError);
+      expect(() => PatternParser.parse('<n:integer(10..1)>')).toThrow(PatternParseError);
+    });
+  });
+
+  describe('options', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should parse flags and typed options', () => {
+      const tokens = PatternParser.parse('send [-v|--verbose] <msg:text> [-n|--count:integer=5]');
+      
+      expect(tokens.map(token => token.type)).toEqual(['literal', 'literal', 'parameter', 'option', 'option']);
+      expect(tokens[3]).toMatchObject({ name: 'verbose', optionNames: ['-v', '--verbose'], dataType: null, defaultValue: false });
+      expect(tokens[4]).toMatchObject({ name: 'count', optionNames: ['-n', '--count'], dataType: 'integer', defaultValue: 5 });
+    });
+
+    test('should collapse spaces around removed options', () => {
+      const tokens = PatternParser.parse('send [-v|--verbose] <msg:text>');
+      
+      expect(tokens[0].value).toBe('send');
+      expect(tokens[1].value).toBe(' ');
+      expect(tokens[1].optional).toBe(true);
+    });
+
+    test('should parse required options', () => {
+      const tokens = PatternParser.parse('send <msg:text> <--to:at>');
+      
+      expect(tokens[tokens.length - 1]).toMatchObject({ type: 'option', name: 'to', dataType: 'at', optional: false });
+    });
+
+    test('should throw on invalid option names', () => {
+      expect(() => PatternParser.parse('run [--:text]')).toThrow(PatternParseError);
+      expect(() => PatternParser.parse('run [-abc]')).toThrow(PatternParseError);
+      // 数字短选项会与负数混淆，也无法从消息中提取
+      expect(() => PatternParser.parse('run [-1|--one]')).toThrow("Invalid option name '-1'");
+    });
+  });
+
+  describe('groups', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should parse optional group with nested tokens', () => {
+      const tokens = PatternParser.parse('ban <who:at>[ for <minutes:integer> minutes]');
+      const group = tokens[tokens.length - 1];
+      
+      expect(group.type).toBe('group');
+      expect(group.optional).toBe(true);
+      expect(group.children!.map(child => child.type)).toEqual(['literal', 'literal', 'parameter', 'literal']);
+      expect(group.children![0].value).toBe(' for');
+      expect(group.children![1].optional).toBe(true);
+      expect(group.children![2].name).toBe('minutes');
+    });
+
+    test('should parse nested groups', () => {
+      const tokens = PatternParser.parse('roll[ <n:integer>[ x <m:integer>]]');
+      const inner = tokens[1].children![tokens[1].children!.length - 1];
+      
+      expect(inner.type).toBe('group');
+      expect(inner.children!.some(child => child.name === 'm')).toBe(true);
+    });
+
+    test('should keep parameter syntax for brackets starting with a name', () => {
+      const tokens = PatternParser.parse('[count:number=1][name][...rest]');
+      
+      expect(tokens.map(token => token.type)).toEqual(['parameter', 'parameter', 'rest_parameter']);
+    });
+
+    test('should throw on options inside groups', () => {
+      expect(() => PatternParser.parse('run[ now [-v|--verbose]]')).toThrow(PatternParseError);
+    });
+  });
+
+  describe('quantifiers', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should parse quantifiers after parameters', () => {
+      expect(PatternParser.parse('<ids:integer>+')[0].quantifier).toEqual({ min: 1 });
+      expect(PatternParser.parse('<ids:integer>*')[0].quantifier).toEqual({ min: 0 });
+      expect(PatternParser.parse('<ids:integer>{2}')[0].quantifier).toEqual({ min: 2, max: 2 });
+      expect(PatternParser.parse('<ids:integer>{1,}')[0].quantifier).toEqual({ min: 1 });
+      expect(PatternParser.parse('<ids:integer>{1,5}')[0].quantifier).toEqual({ min: 1, max: 5 });
+    });
+
+    test('should parse quantifiers after typed literals', () => {
+      const tokens = PatternParser.parse('{face:1}*hi');
+      
+      expect(tokens[0].type).toBe('typed_literal');
+      expect(tokens[0].quantifier).toEqual({ min: 0 });
+      expect(tokens[1].value).toBe('hi');
+    });
+
+    test('should treat escaped quantifier characters as literals', () => {
+      const tokens = PatternParser.parse('<a:number>\\+<b:number>');
+      
+      expect(tokens[0].quantifier).toBeUndefined();
+      expect(tokens[1].value).toBe('+');
+    });
+
+    test('should throw on invalid ranges', () => {
+      expect(() => PatternParser.parse('<ids:integer>{5,1}')).toThrow(PatternParseError);
+      expect(() => PatternParser.parse('<ids:integer>{0}')).toThrow(PatternParseError);
+    });
+  });
+
+  describe('parseAst', () => {
+    test('should record source positions for each element', () => {
+      const ast = PatternParser.parseAst('ban <who:at> (on|off) {face:1}+');
+      
+      expect(ast.type).toBe('sequence');
+      expect(ast.start).toBe(0);
+      expect(ast.end).toBe(31);
+      expect(ast.children!.map(node => [node.type, node.start, node.end])).toEqual([
+        ['literal', 0, 4],
+        ['parameter', 4, 12],
+        ['literal', 12, 13],
+        ['alternation', 13, 21],
+        ['literal', 21, 22],
+        ['typed_literal', 22, 31]
+      ]);
+      expect(ast.children![1].token!.name).toBe('who');
+    });
+
+    test('should nest group children', () => {
+      const ast = PatternParser.parseAst('ban <who:at>[ for <minutes:integer> minutes]');
+      const group = ast.children![2];
+      
+      expect(group.type).toBe('group');
+      expect(group.start).toBe(12);
+      expect(group.end).toBe(44);
+      expect(group.token).toBeUndefined();
+      expect(group.children!.map(node => [node.type, node.start, node.end])).toEqual([
+        ['literal', 13, 18],
+        ['parameter', 18, 35],
+        ['literal', 35, 43]
+      ]);
+    });
+
+    test('should keep options in place and spaces unchanged', () => {
+      const ast = PatternParser.parseAst('send [-f] <a:text> <b:text>');
+      
+      expect(ast.children![1].type).toBe('option');
+      expect(ast.children![4].token!.optional).toBeFalsy();
+    });
+
+    const catchError = (pattern: string): PatternParseError => {
+      try {
+        PatternParser.parseAst(pattern);
+      } catch (error) {
+        return error as PatternParseError;
+      }
+      throw new Error('expected parse error');
+    };
+
+    test('should report the span of the failing element', () => {
+      const error = catchError('hi <n:integer(abc)> there');
+      
+      expect(error).toBeInstanceOf(PatternParseError);
+      expect(error.details?.position).toBe(3);
+      expect(error.details?.end).toBe(19);
+    });
+
+    test('should report unmatched braces up to the end of the pattern', () => {
+      const error = catchError('hi <name:text');
+      
+      expect(error.details?.position).toBe(3);
+      expect(error.details?.end).toBe(13);
+    });
+  });
+
+  describe('stringify', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    const roundTrip = (pattern: string) => {
+      const tokens = PatternParser.parse(pattern);
+      const text = PatternParser.stringify(tokens);
+      PatternParser.clearCache();
+      expect(PatternParser.parse(text)).toEqual(tokens);
+      return text;
+    };
+
+    test('should stringify tokens built with factory methods', () => {
+      const text = PatternParser.stringify([
+        PatternToken.createLiteral('ban '),
+        PatternToken.createParameter('who', 'at'),
+        PatternToken.createLiteral(' '),
+        PatternToken.createParameter('minutes', 'integer', true, 10),
+        PatternToken.createRestParameter('rest', null)
+      ]);
+      
+      expect(text).toBe('ban <who:at> [minutes:integer=10][...rest]');
+    });
+
+    test('should escape special characters in literals and values', () => {
+      expect(roundTrip('set \\[x\\] <v:text> {text:a\\}b}')).toBe('set \\[x\\] <v:text> {text:a\\}b}');
+      expect(roundTrip('[msg:text=a \\] b]')).toBe('[msg:text=a \\] b]');
+      expect(roundTrip('<a:number> \\+ <b:number>')).toBe('<a:number> \\+ <b:number>');
+    });
+
+    test('should output default objects as JSON', () => {
+      const text = PatternParser.stringify([PatternToken.createParameter('p', 'json', true, { a: [1, 2], b: 'x]' })]);
+      
+      expect(text).toBe('[p:json={"a":[1,2],"b":"x\\]"}]');
+      expect(PatternParser.parse(text)[0].defaultValue).toEqual({ a: [1, 2], b: 'x]' });
+    });
+
+    test('should quote string defaults that would not parse back as the same string', () => {
+      const defaults = ['42', 'true', '$sender', ' padded ', 'say "hi"', '"hi"', '[1]'];
+      const tokens = defaults.map((value, index) => PatternToken.createParameter(`p${index}`, 'text', true, value));
+      const text = PatternParser.stringify(tokens);
+      
+      expect(text).toBe('[p0:text="42"][p1:text="true"][p2:text=\\$sender][p3:text=" padded "][p4:text=say "hi"][p5:text="\\"hi\\""][p6:text="\\[1\\]"]');
+      PatternParser.clearCache();
+      expect(PatternParser.parse(text).map(token => token.defaultValue)).toEqual(defaults);
+      expect(PatternParser.parse(text).every(token => token.defaultProvider === undefined)).toBe(true);
+    });
+
+    test('should round-trip typed parameters', () => {
+      expect(roundTrip('<code:/[A-Z]{4}-\\d+/i>')).toBe('<code:/[A-Z]{4}-\\d+/i>');
+      expect(roundTrip('<mode:enum(on,off)i> <size:s|m|l>')).toBe('<mode:enum(on,off)i> <size:enum(s,m,l)>');
+      expect(roundTrip('<n:integer(1..100)> [r:float(>0,<1)=0.5] <w:word(len 2..)>'))
+        .toBe('<n:integer(1..100)> [r:float(>0,<1)=0.5] <w:word(len 2..)>');
+    });
+
+    test('should round-trip alternations, groups and quantifiers', () => {
+      expect(roundTrip('(add|remove) (mode:on|off) <x:text>')).toBe('(add|remove) (mode:on|off) <x:text>');
+      expect(roundTrip('ban <who:at>[ for <minutes:integer> minutes]')).toBe('ban <who:at>[ for <minutes:integer> minutes]');
+      expect(roundTrip('kick <ids:integer>{1,5} {face:1}*')).toBe('kick <ids:integer>{1,5} {face:1}*');
+    });
+
+    test('should output options at the end', () => {
+      expect(roundTrip('send [-v|--verbose] <msg:text> <--to:at> [-n|--count:integer=5]'))
+        .toBe('send <msg:text> [-v|--verbose] <--to:at> [-n|--count:integer=5]');
+    });
+  });
+
+  describe('whitespace policy', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should keep spaces before parameters required in strict mode', () => {
+      const tokens = PatternParser.parse('add <a:number>', { whitespace: 'strict' });
+      
+      expect(tokens).toHaveLength(2);
+      expect(tokens[0].value).toBe('add ');
+      expect(tokens[0].optional).toBeFalsy();
+    });
+
+    test('should cache tokens separately for each policy', () => {
+      const relaxed = PatternParser.parse('add <a:number>');
+      const strict = PatternParser.parse('add <a:number>', { whitespace: 'strict' });
+      
+      expect(relaxed).toHaveLength(3);
+      expect(strict).toHaveLength(2);
+      expect(PatternParser.parse('add <a:number>', { whitespace: 'lenient' })).toHaveLength(3);
+    });
+  });
+
+  describe('normalization', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should normalize literals, alternatives and text typed literals', () => {
+      const tokens = PatternParser.parse('！ｈｉ (ａ|ｂ) {text:ｘ}{face:１}', { normalize: true });
+      
+      expect(tokens[0].value).toBe('!hi ');
+      expect(tokens[1].alternatives).toEqual(['a', 'b']);
+      expect(tokens[3].value).toBe('x');
+      expect(tokens[4].value).toBe('１');
+    });
+
+    test('should not normalize by default', () => {
+      expect(PatternParser.parse('！ｈｉ')[0].value).toBe('！ｈｉ');
+    });
+  });
+
+  describe('descriptions', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should attach descriptions to required parameters', () => {
+      const [, , token] = PatternParser.parse('nick <name:text "the user\'s nickname">');
+      
+      expect(token.name).toBe('name');
+      expect(token.dataType).toBe('text');
+      expect(token.description).toBe("the user's nickname");
+      expect(token.example).toBeUndefined();
+    });
+
+    test('should attach descriptions and examples to optional parameters', () => {
+      const token = PatternParser.parse('[n:integer(1..100)=6 "how many" "3"]')[0];
+      
+      expect(token.defaultValue).toBe(6);
+      expect(token.constraints).toEqual({ min: 1, max: 100 });
+      expect(token.description).toBe('how many');
+      expect(token.example).toBe('3');
+    });
+
+    test('should attach descriptions to rest parameters and options', () => {
+      const tokens = PatternParser.parse('run [...args "extra arguments"] [-v|--verbose "print details"]');
+      
+      expect(tokens.find(token => token.type === 'rest_parameter')?.description).toBe('extra arguments');
+      expect(tokens.find(token => token.type === 'option')?.description).toBe('print details');
+    });
+
+    test('should treat a name followed by a description as a parameter', () => {
+      const token = PatternParser.parse('[who "the target"]')[0];
+      
+      expect(token.type).toBe('parameter');
+      expect(token.name).toBe('who');
+      expect(token.description).toBe('the target');
+    });
+
+    test('should unescape quotes and brackets in descriptions', () => {
+      const token = PatternParser.parse('<x:text "say \\"hi\\" \\> 1">')[0];
+      
+      expect(token.description).toBe('say "hi" > 1');
+    });
+
+    test('should not close the parameter inside an unescaped description', () => {
+      const [token] = PatternParser.parse('<n:integer "must be > 0">');
+      const [counted] = PatternParser.parse('<n:integer "count (max 5">');
+      
+      expect(token.dataType).toBe('integer');
+      expect(token.description).toBe('must be > 0');
+      expect(counted.dataType).toBe('integer');
+      expect(counted.description).toBe('count (max 5');
+    });
+
+    test('should reject type names with spaces or quotes', () => {
+      expect(() => PatternParser.parse('<n:integer must be>')).toThrow("Invalid type 'integer must be' for parameter 'n'");
+      expect(() => PatternParser.parse('<n:integer "oops>')).toThrow(PatternParseError);
+    });
+
+    test('should keep quotes in unquoted string defaults', () => {
+      const [token] = PatternParser.parse('[msg:text=say "hi"]');
+      
+      expect(token.defaultValue).toBe('say "hi"');
+      expect(token.description).toBeUndefined();
+    });
+
+    test('should attach descriptions after quoted string defaults', () => {
+      const [token] = PatternParser.parse('[msg:text="say hi" "the greeting"]');
+      
+      expect(token.defaultValue).toBe('say hi');
+      expect(token.description).toBe('the greeting');
+      expect(PatternParser.stringify([token])).toBe('[msg:text="say hi" "the greeting"]');
+    });
+
+    test('should round-trip descriptions through stringify', () => {
+      const pattern = 'roll <n:integer "how many" "3"> [x:text "say \\"hi\\" \\> 1"]';
+      const tokens = PatternParser.parse(pattern);
+      
+      expect(PatternParser.stringify(tokens)).toBe(pattern);
+    });
+  });
+
+  describe('glob typed literals', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should compile unescaped stars into a glob', () => {
+      const [any, gif] = PatternParser.parse('{at:*}{image:*.gif}');
+      
+      expect(any.type).toBe('typed_literal');
+      expect(any.value).toBe('*');
+      expect(any.regex?.test('123')).toBe(true);
+      expect(gif.regex?.test('cat.gif')).toBe(true);
+      expect(gif.regex?.test('cat.png')).toBe(false);
+    });
+
+    test('should keep escaped stars literal', () => {
+      const [exact] = PatternParser.parse('{text:a\\*b}');
+      const [glob] = PatternParser.parse('{text:a\\**}');
+      
+      expect(exact.regex).toBeUndefined();
+      expect(exact.value).toBe('a*b');
+      expect(glob.regex?.test('a*bc')).toBe(true);
+      expect(glob.regex?.test('abc')).toBe(false);
+    });
+
+    test('should round-trip globs through stringify', () => {
+      for (const pattern of ['{at:*}', '{image:*.gif}', '{text:a\\**}', '{text:a\\*b}']) {
+        expect(PatternParser.stringify(PatternParser.parse(pattern))).toBe(pattern);
+      }
+    });
+  });
+
+  describe('typed literal fields', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should parse key=value constraints after the segment type', () => {
+      const [token] = PatternParser.parse('{image file=a.png sub_type=1}');
+      
+      expect(token.type).toBe('typed_literal');
+      expect(token.segmentType).toBe('image');
+      expect(token.value).toBeUndefined();
+      expect(token.fields?.map(({ key, value }) => ({ key, value }))).toEqual([
+        { key: 'file', value: 'a.png' },
+        { key: 'sub_type', value: '1' }
+      ]);
+    });
+
+    test('should keep the colon form for values containing spaces', () => {
+      const [token] = PatternParser.parse('{image:a b.png}');
+      
+      expect(token.fields).toBeUndefined();
+      expect(token.value).toBe('a b.png');
+    });
+
+    test('should reject constraints without a value', () => {
+      expect(() => PatternParser.parse('{image file}')).toThrow(PatternParseError);
+    });
+
+    test('should parse double-quoted field values', () => {
+      const [token] = PatternParser.parse('{image file="a b.png" summary="say \\"hi\\""}');
+      
+      expect(token.fields?.map(({ key, value }) => ({ key, value }))).toEqual([
+        { key: 'file', value: 'a b.png' },
+        { key: 'summary', value: 'say "hi"' }
+      ]);
+      expect(() => PatternParser.parse('{image file="a b.png}')).toThrow("Invalid field constraint 'file=\"a' in typed literal");
+    });
+
+    test('should round-trip fields through stringify', () => {
+      const pattern = '{image file=*.gif sub_type=1}';
+      const quoted = '{image file="my *.gif" summary="say \\"hi\\""}';
+      
+      expect(PatternParser.stringify(PatternParser.parse(pattern))).toBe(pattern);
+      expect(PatternParser.stringify(PatternParser.parse(quoted))).toBe(quoted);
+    });
+  });
+
+  describe('runtime defaults', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should parse $name defaults as providers', () => {
+      const [param] = PatternParser.parse('[who:at=$sender]');
+      const option = PatternParser.parse('[--page:integer=$lastPage]')[0];
+      
+      expect(param.defaultProvider).toBe('sender');
+      expect(param.defaultValue).toBeUndefined();
+      expect(option.defaultProvider).toBe('lastPage');
+      expect(option.defaultValue).toBeUndefined();
+    });
+
+    test('should keep other dollar strings as static defaults', () => {
+      const [token] = PatternParser.parse('[price=$5]');
+      
+      expect(token.defaultProvider).toBeUndefined();
+      expect(token.defaultValue).toBe('$5');
+    });
+
+    test('should round-trip providers through stringify', () => {
+      const pattern = 'log [who:at=$sender] [--page:integer=$lastPage]';
+      
+      expect(PatternParser.stringify(PatternParser.parse(pattern))).toBe(pattern);
+    });
+  });
+
+  describe('text modes', () => {
+    beforeEach(() => {
+      PatternParser.clearCache();
+    });
+
+    test('should parse text mode suffixes', () => {
+      const [lazy, , until, , line] = PatternParser.parse('<a:text?> <b:text~> <c:text$>');
+      
+      expect(lazy.dataType).toBe('text');
+      expect(lazy.textMode).toBe('lazy');
+      expect(until.textMode).toBe('until');
+      expect(line.textMode).toBe('line');
+    });
+
+    test('should combine text modes with constraints', () => {
+      const [token] = PatternParser.parse('<title:text(len ..20)?>');
+      
+      expect(token.dataType).toBe('text');
+      expect(token.textMode).toBe('lazy');
+      expect(token.constraints).toEqual({ maxLength: 20 });
+    });
+
+    test('should use the following literal as the delimiter', () => {
+      const tokens = PatternParser.parse('<a:text~>, <b:text~>{at:*}');
+      
+      expect(tokens[0].delimiter).toBe(',');
+      expect(tokens.find(token => token.name === 'b')?.delimiter).toBeUndefined();
+    });
+
+    test('should round-trip text modes through stringify', () => {
+      const pattern = 'post <title:text(len ..20)$> <a:text?> [b:text~=x]';
+      
+      expect(PatternParser.stringify(PatternParser.parse(pattern))).toBe(pattern);
+    });
+  });
 }); 
\ No newline at end of file
@@ -232,4 +232,41 @@ describe('PatternToken', () => {
       expect(token.dataType).toBeUndefined();
     });
   });
+
+  describe('createAlternation', () => {
+    test('should create alternation token with alternatives', () => {
+      const token = PatternToken.createAlternation('action', ['add', 'remove', 'list']);
+      
+      expect(token.type).toBe('alternation');
+      expect(token.name).toBe('action');
+      expect(token.alternatives).toEqual(['add', 'remove', 'list']);
+      expect(token.value).toBeUndefined();
+      expect(token.optional).toBeUndefined();
+    });
+  });
+
+  describe('createOption', () => {
+    test('should create option token with all spellings', () => {
+      const token = PatternToken.createOption('count', ['-n', '--count'], 'integer', true, 5);
+      
+      expect(token.type).toBe('option');
+      expect(token.name).toBe('count');
+      expect(token.optionNames).toEqual(['-n', '--count']);
+      expect(token.dataType).toBe('integer');
+      expect(token.optional).toBe(true);
+      expect(token.defaultValue).toBe(5);
+    });
+  });
+
+  describe('createGroup', () => {
+    test('should create optional group token with children', () => {
+      const children = [PatternToken.createLiteral(' for '), PatternToken.createParameter('minutes', 'integer', false)];
+      const token = PatternToken.createGroup(children);
+      
+      expect(token.type).toBe('group');
+      expect(token.children).toBe(children);
+      expect(token.optional).toBe(true);
+      expect(token.name).toBeUndefined();
+    });
+  });
 }); 
\ No newline at end of file
@@ -1,4 +1,6 @@
-import { SegmentMatcher, createMatcher, MessageSegment, ValidationError } from '../index';
+import { SegmentMatcher, createMatcher, MessageSegment, ValidationError, PatternParseError, DefaultValueRegistry } from '../index';
+
+const text = (value: string): MessageSegment[] => [{ type: 'text', data: { text: value } }];
 
 describe('SegmentMatcher', () => {
   describe('Constructor validation', () => {
@@ -1707,4 +1709,981 @@ describe('SegmentMatcher', () => {
       });
     });
   });
+
+  describe('Backtracking', () => {
+    test('should stop greedy text before a following literal', () => {
+      const matcher = createMatcher('send <msg:text> to <who:at>');
+      const segments: MessageSegment[] = [
+        { type: 'text', data: { text: 'send hello world to ' } },
+        { type: 'at', data: { user_id: 123456 } }
+      ];
+
+      expect(matcher.match(segments)).toEqual({
+        matched: [
+          { type: 'text', data: { text: 'send' } },
+          { type: 'text', data: { text: ' ' } },
+          { type: 'text', data: { text: 'hello world' } },
+          { type: 'text', data: { text: ' to' } },
+          { type: 'text', data: { text: ' ' } },
+          { type: 'at', data: { user_id: 123456 } }
+        ],
+        params: { msg: 'hello world', who: 123456 },
+        remaining: []
+      });
+    });
+
+    test('should split text between two text parameters', () => {
+      const matcher = createMatcher('move <from:text> to <dest:text>');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'move a b to c d' } }])?.params)
+        .toEqual({ from: 'a b', dest: 'c d' });
+      // 贪婪优先：第一个参数取尽可能长的文本
+      expect(matcher.match([{ type: 'text', data: { text: 'move a to b to c' } }])?.params)
+        .toEqual({ from: 'a to b', dest: 'c' });
+    });
+
+    test('should backtrack before a trailing literal', () => {
+      const matcher = createMatcher('say <msg:text>!');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'say hi there!' } }])?.params)
+        .toEqual({ msg: 'hi there' });
+      expect(matcher.match([{ type: 'text', data: { text: 'say hi there' } }])).toBeNull();
+    });
+
+    test('should backtrack before a typed literal in the next segment', () => {
+      const matcher = createMatcher('<a:text> {face:1}');
+      const segments: MessageSegment[] = [
+        { type: 'text', data: { text: 'hello ' } },
+        { type: 'face', data: { id: 1 } }
+      ];
+
+      expect(matcher.match(segments)?.params).toEqual({ a: 'hello' });
+    });
+
+    test('should skip an optional parameter when a later required one needs the input', () => {
+      const matcher = createMatcher('[a:number=1] <b:number>');
+
+      expect(matcher.match([{ type: 'text', data: { text: '5' } }])?.params).toEqual({ a: 1, b: 5 });
+      expect(matcher.match([{ type: 'text', data: { text: '5 6' } }])?.params).toEqual({ a: 5, b: 6 });
+    });
+
+    test('should keep greedy result when later tokens are optional', () => {
+      const matcher = createMatcher('cmd <a:text> [b:number=0]');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'cmd x 1' } }])?.params).toEqual({ a: 'x 1', b: 0 });
+    });
+
+    test('should not split text in the middle of a word before a separator', () => {
+      expect(createMatcher('say <msg:text> <n:number>').match([{ type: 'text', data: { text: 'say hello 42' } }])?.params)
+        .toEqual({ msg: 'hello', n: 42 });
+      expect(createMatcher('tell <msg:text> <who:word>').match([{ type: 'text', data: { text: 'tell hi there bob' } }])?.params)
+        .toEqual({ msg: 'hi there', who: 'bob' });
+      expect(createMatcher('[please] <x:word>').match([{ type: 'text', data: { text: 'please go' } }])?.params)
+        .toEqual({ please: 'please', x: 'go' });
+      expect(createMatcher('say <msg:text> <n:number>').match([{ type: 'text', data: { text: 'say hello42' } }])).toBeNull();
+    });
+
+    test('should fail quickly on long input with several text parameters', () => {
+      const words: MessageSegment[] = [{ type: 'text', data: { text: 'abc '.repeat(80) } }];
+      const letters: MessageSegment[] = [{ type: 'text', data: { text: 'x'.repeat(320) } }];
+      const start = Date.now();
+
+      expect(createMatcher('<a:text> <b:text> <c:text>!').match(words)).toBeNull();
+      expect(createMatcher('<a:text><b:text><c:text>!').match(letters)).toBeNull();
+      expect(Date.now() - start).toBeLessThan(2000);
+    });
+  });
+
+  describe('Alternation', () => {
+    test('should record the matched alternative', () => {
+      const matcher = createMatcher('(add|remove|list) <name:word>');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'add alice' } }])?.params)
+        .toEqual({ $1: 'add', name: 'alice' });
+      expect(matcher.match([{ type: 'text', data: { text: 'remove bob' } }])?.params)
+        .toEqual({ $1: 'remove', name: 'bob' });
+      expect(matcher.match([{ type: 'text', data: { text: 'drop bob' } }])).toBeNull();
+    });
+
+    test('should use the group name when provided', () => {
+      const matcher = createMatcher('user (action:add|remove)');
+      const result = matcher.match([{ type: 'text', data: { text: 'user remove' } }]);
+
+      expect(result).toEqual({
+        matched: [
+          { type: 'text', data: { text: 'user ' } },
+          { type: 'text', data: { text: 'remove' } }
+        ],
+        params: { action: 'remove' },
+        remaining: []
+      });
+    });
+
+    test('should prefer the longest alternative', () => {
+      const matcher = createMatcher('(op:add|addall) <name:word>');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'addall x' } }])?.params)
+        .toEqual({ op: 'addall', name: 'x' });
+    });
+
+    test('should backtrack into a shorter alternative', () => {
+      const matcher = createMatcher('(op:ab|a)bc');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'abc' } }])?.params).toEqual({ op: 'a' });
+    });
+  });
+
+  describe('Escaped literals', () => {
+    test('should match escaped special characters literally', () => {
+      const matcher = createMatcher('set \\[x\\] <v:number>');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'set [x] 5' } }])?.params).toEqual({ v: 5 });
+    });
+
+    test('should match escaped angle brackets in math expressions', () => {
+      const matcher = createMatcher('<a:number> \\< <b:number>');
+
+      expect(matcher.match([{ type: 'text', data: { text: '1 < 2' } }])?.params).toEqual({ a: 1, b: 2 });
+    });
+  });
+
+  describe('Inline regex parameters', () => {
+    test('should capture a regex prefix and continue matching', () => {
+      const matcher = createMatcher('ticket <code:/[A-Z]{4}-\\d+/> <note:text>');
+      const result = matcher.match([{ type: 'text', data: { text: 'ticket ABCD-42 fix login' } }]);
+
+      expect(result?.params.code).toEqual({ match: 'ABCD-42', groups: {} });
+      expect(result?.params.note).toBe('fix login');
+    });
+
+    test('should expose named groups', () => {
+      const matcher = createMatcher('invite <code:/(?<region>[a-z]{2})(?<id>\\d{4})/>');
+      const result = matcher.match([{ type: 'text', data: { text: 'invite cn1234' } }]);
+
+      expect(result?.params.code.groups).toEqual({ region: 'cn', id: '1234' });
+    });
+
+    test('should fail when regex does not match', () => {
+      const matcher = createMatcher('ticket <code:/[A-Z]{4}-\\d+/>');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'ticket abc' } }])).toBeNull();
+    });
+  });
+
+  describe('Enum parameters', () => {
+    test('should match one of the choices and continue', () => {
+      const matcher = createMatcher('light <mode:on|off|auto> [room:text]');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'light auto kitchen' } }])?.params)
+        .toEqual({ mode: 'auto', room: 'kitchen' });
+      expect(matcher.match([{ type: 'text', data: { text: 'light dim kitchen' } }])).toBeNull();
+    });
+
+    test('should return canonical choice when case-insensitive', () => {
+      const matcher = createMatcher('light <mode:enum(on,off,auto)i>');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'light AUTO' } }])?.params).toEqual({ mode: 'auto' });
+    });
+
+    test('should not throw on text segments without text', () => {
+      const matcher = createMatcher('<mode:enum(on,off)i>');
+
+      expect(matcher.match([{ type: 'text', data: {} }])).toBeNull();
+      expect(matcher.explain([{ type: 'text', data: {} }])?.reason).toBe('unexpected_input');
+      expect(matcher.matchAll([{ type: 'text', data: {} }])).toEqual([]);
+    });
+
+    test('should use default value when optional enum is missing', () => {
+      const matcher = createMatcher('light [mode:on|off=on]');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'light' } }])?.params).toEqual({ mode: 'on' });
+    });
+  });
+
+  describe('Parameter constraints', () => {
+    test('should enforce numeric ranges', () => {
+      const matcher = createMatcher('roll <n:integer(1..100)>');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'roll 42' } }])?.params).toEqual({ n: 42 });
+      expect(matcher.match([{ type: 'text', data: { text: 'roll 150' } }])).toBeNull();
+    });
+
+    test('should enforce length limits', () => {
+      const matcher = createMatcher('nick <name:word(len 2..4)>');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'nick bob' } }])?.params).toEqual({ name: 'bob' });
+      expect(matcher.match([{ type: 'text', data: { text: 'nick b' } }])).toBeNull();
+    });
+
+    test('should report constraint violations from matchDetailed', () => {
+      const matcher = createMatcher('roll <n:integer(1..100)>');
+      const { result, failure } = matcher.matchDetailed([{ type: 'text', data: { text: 'roll 150' } }]);
+
+      expect(result).toBeNull();
+      expect(failure?.reason).toBe('constraint_violation');
+      expect(failure?.value).toBe(150);
+      expect(failure?.message).toBe('n must be between 1 and 100');
+    });
+
+    test('should not fall back to the default when an optional value violates constraints', () => {
+      const matcher = createMatcher('roll [n:integer(1..10)=1]');
+      const { result, failure } = matcher.matchDetailed([{ type: 'text', data: { text: 'roll 50' } }]);
+
+      expect(result).toBeNull();
+      expect(failure?.reason).toBe('constraint_violation');
+      expect(failure?.value).toBe(50);
+      expect(matcher.match([{ type: 'text', data: { text: 'roll' } }])?.params).toEqual({ n: 1 });
+      expect(matcher.match([{ type: 'text', data: { text: 'roll 5' } }])?.params).toEqual({ n: 5 });
+    });
+
+    test('should not report failures when match succeeds', () => {
+      const matcher = createMatcher('roll <n:integer(1..100)>');
+      const { result, failure } = matcher.matchDetailed([{ type: 'text', data: { text: 'roll 7' } }]);
+
+      expect(result?.params).toEqual({ n: 7 });
+      expect(failure).toBeNull();
+    });
+  });
+
+  describe('Options', () => {
+    const pattern = 'send [-v|--verbose] <msg:text> [-n|--count:integer=5]';
+
+    test('should use defaults when options are absent', () => {
+      const matcher = createMatcher(pattern);
+
+      expect(matcher.match([{ type: 'text', data: { text: 'send hello world' } }])?.params)
+        .toEqual({ msg: 'hello world', verbose: false, count: 5 });
+    });
+
+    test('should extract options from anywhere after the command', () => {
+      const matcher = createMatcher(pattern);
+
+      expect(matcher.match([{ type: 'text', data: { text: 'send --verbose hello -n 3 world' } }])?.params)
+        .toEqual({ msg: 'hello world', verbose: true, count: 3 });
+      expect(matcher.match([{ type: 'text', data: { text: 'send hello --count=7' } }])?.params)
+        .toEqual({ msg: 'hello', verbose: false, count: 7 });
+    });
+
+    test('should fail on invalid option values', () => {
+      const matcher = createMatcher(pattern);
+
+      expect(matcher.match([{ type: 'text', data: { text: 'send -n abc hello' } }])).toBeNull();
+      expect(matcher.match([{ type: 'text', data: { text: 'send hello --count' } }])).toBeNull();
+    });
+
+    test('should take option values from the following segment', () => {
+      const matcher = createMatcher('send <msg:text> <--to:at>');
+      const result = matcher.match([
+        { type: 'text', data: { text: 'send hi --to ' } },
+        { type: 'at', data: { user_id: 42 } },
+        { type: 'text', data: { text: ' there' } }
+      ]);
+
+      expect(result?.params).toEqual({ msg: 'hi there', to: 42 });
+      expect(matcher.match([{ type: 'text', data: { text: 'send hi' } }])).toBeNull();
+    });
+
+    test('should stop recognizing options after --', () => {
+      const matcher = createMatcher('send <msg:text> [-v|--verbose]');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'send -- --verbose is text' } }])?.params)
+        .toEqual({ msg: '--verbose is text', verbose: false });
+    });
+
+    test('should not recognize options before the command literal', () => {
+      const matcher = createMatcher('send <msg:text> [-v|--verbose]');
+
+      expect(matcher.match([{ type: 'text', data: { text: '--verbose send x' } }])).toBeNull();
+    });
+
+    test('should not recognize options inside quoted text', () => {
+      const matcher = createMatcher('say <msg:text> [-v|--verbose]');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'say "use -v here"' } }])?.params)
+        .toEqual({ msg: 'use -v here', verbose: false });
+      expect(matcher.match([{ type: 'text', data: { text: 'say "use -v here" -v' } }])?.params)
+        .toEqual({ msg: 'use -v here', verbose: true });
+      expect(matcher.match([{ type: 'text', data: { text: "say don't -v stop" } }])?.params)
+        .toEqual({ msg: "don't stop", verbose: true });
+    });
+  });
+
+  describe('Optional groups', () => {
+    const at = { type: 'at', data: { user_id: 7 } };
+
+    test('should match the whole group', () => {
+      const matcher = createMatcher('ban <who:at>[ for <minutes:integer> minutes]');
+      const result = matcher.match([{ type: 'text', data: { text: 'ban ' } }, at, { type: 'text', data: { text: ' for 10 minutes' } }]);
+
+      expect(result?.params).toEqual({ who: 7, minutes: 10 });
+      expect(result?.remaining).toEqual([]);
+    });
+
+    test('should skip the group and default inner parameters', () => {
+      const matcher = createMatcher('ban <who:at>[ for <minutes:integer> minutes]');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'ban ' } }, at])?.params).toEqual({ who: 7, minutes: null });
+    });
+
+    test('should skip the group atomically when it only partially matches', () => {
+      const matcher = createMatcher('ban <who:at>[ for <minutes:integer> minutes]');
+      const result = matcher.match([{ type: 'text', data: { text: 'ban ' } }, at, { type: 'text', data: { text: ' for x minutes' } }]);
+
+      expect(result?.params).toEqual({ who: 7, minutes: null });
+      expect(result?.remaining).toEqual([{ type: 'text', data: { text: ' for x minutes' } }]);
+    });
+
+    test('should match nested groups', () => {
+      const matcher = createMatcher('roll[ <n:integer>[ x <m:integer>]]');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'roll 3 x 4' } }])?.params).toEqual({ n: 3, m: 4 });
+      expect(matcher.match([{ type: 'text', data: { text: 'roll 3' } }])?.params).toEqual({ n: 3, m: null });
+      expect(matcher.match([{ type: 'text', data: { text: 'roll' } }])?.params).toEqual({ n: null, m: null });
+    });
+  });
+
+  describe('Quantifiers', () => {
+    test('should collect space-separated values into an array', () => {
+      const matcher = createMatcher('kick <ids:integer>+');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'kick 1 2 3' } }])?.params).toEqual({ ids: [1, 2, 3] });
+      expect(matcher.match([{ type: 'text', data: { text: 'kick' } }])).toBeNull();
+    });
+
+    test('should allow zero items with *', () => {
+      const matcher = createMatcher('kick <ids:integer>*');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'kick' } }])?.params).toEqual({ ids: [] });
+    });
+
+    test('should enforce min and max counts', () => {
+      const matcher = createMatcher('kick <ids:integer>{2,3}');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'kick 1' } }])).toBeNull();
+      const result = matcher.match([{ type: 'text', data: { text: 'kick 1 2 3 4' } }]);
+      expect(result?.params).toEqual({ ids: [1, 2, 3] });
+      expect(result?.remaining).toEqual([{ type: 'text', data: { text: ' 4' } }]);
+    });
+
+    test('should give back items when following tokens need them', () => {
+      const matcher = createMatcher('sum <xs:number>+ <tail:text>');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'sum 1 2 3 abc' } }])?.params).toEqual({ xs: [1, 2, 3], tail: 'abc' });
+    });
+
+    test('should repeat typed literals and segment parameters', () => {
+      const faces = createMatcher('{face:1}*<msg:text>');
+      const picks = createMatcher('pick <f:face>{1,2}');
+
+      expect(faces.match([
+        { type: 'face', data: { id: 1 } },
+        { type: 'face', data: { id: 1 } },
+        { type: 'text', data: { text: 'hi' } }
+      ])?.params).toEqual({ msg: 'hi' });
+      expect(picks.match([
+        { type: 'text', data: { text: 'pick ' } },
+        { type: 'face', data: { id: 1 } },
+        { type: 'face', data: { id: 2 } }
+      ])?.params).toEqual({ f: [1, 2] });
+    });
+  });
+
+  describe('Strict mode', () => {
+    test('should throw on lint errors', () => {
+      expect(() => new SegmentMatcher('add [...items] <n:number>', undefined, { strict: true })).toThrow(PatternParseError);
+      expect(() => new SegmentMatcher('set [n:number=abc]', undefined, { strict: true })).toThrow(/not a valid number/);
+    });
+
+    test('should report the position of the error', () => {
+      try {
+        createMatcher('move <x:number> <x:number>', undefined, { strict: true });
+      } catch (error) {
+        expect((error as PatternParseError).details).toEqual({ pattern: 'move <x:number> <x:number>', position: 16, end: 26 });
+      }
+      expect.assertions(1);
+    });
+
+    test('should allow warnings and be disabled by default', () => {
+      expect(() => new SegmentMatcher('say <msg:text> <n:number>', undefined, { strict: true })).not.toThrow();
+      expect(() => new SegmentMatcher('add [...items] <n:number>')).not.toThrow();
+    });
+  });
+
+  describe('Case-insensitive literals', () => {
+    test('should match literals exactly by default', () => {
+      expect(createMatcher('help').match(text('Help'))).toBeNull();
+    });
+
+    test('should ignore case and keep the input text in matched', () => {
+      const matcher = createMatcher('help [topic:word]', undefined, { caseInsensitive: true });
+      const result = matcher.match(text('HeLP me'));
+
+      expect(result?.params).toEqual({ topic: 'me' });
+      expect(result?.matched[0]).toEqual({ type: 'text', data: { text: 'HeLP' } });
+    });
+
+    test('should return the canonical alternative for alternations', () => {
+      const matcher = createMatcher('(add|remove) <item:word>', undefined, { caseInsensitive: true });
+      const result = matcher.match(text('REMOVE apple'));
+
+      expect(result?.params).toEqual({ $1: 'remove', item: 'apple' });
+      expect(result?.matched[0].data.text).toBe('REMOVE');
+    });
+
+    test('should recognize options after a case-insensitive command literal', () => {
+      const matcher = createMatcher('go [-v|--verbose]', undefined, { caseInsensitive: true });
+
+      expect(matcher.match(text('GO -v'))?.params).toEqual({ verbose: true });
+    });
+
+    test('should keep accents significant', () => {
+      const matcher = createMatcher('café', undefined, { caseInsensitive: true });
+
+      expect(matcher.match(text('CAFÉ'))).not.toBeNull();
+      expect(matcher.match(text('CAFE'))).toBeNull();
+    });
+
+    test('should fold case using the given locale', () => {
+      const matcher = createMatcher('title', undefined, { caseInsensitive: true, locale: 'tr' });
+
+      expect(matcher.match(text('TİTLE'))).not.toBeNull();
+      expect(matcher.match(text('TITLE'))).toBeNull();
+    });
+  });
+
+  describe('Whitespace policy', () => {
+    test('should require exact whitespace by default', () => {
+      const matcher = createMatcher('add <a:number> <b:number>');
+
+      expect(matcher.match(text('add 1 2'))?.params).toEqual({ a: 1, b: 2 });
+      expect(matcher.match(text('add 1\t2'))).toBeNull();
+    });
+
+    test('should not allow omitting spaces before parameters in strict mode', () => {
+      const matcher = createMatcher('add <a:number>', undefined, { whitespace: 'strict' });
+
+      expect(matcher.match(text('add 1'))?.params).toEqual({ a: 1 });
+      expect(matcher.match(text('add1'))).toBeNull();
+    });
+
+    test('should match any run of whitespace in lenient mode', () => {
+      const matcher = createMatcher('add <a:number> <b:number>', undefined, { whitespace: 'lenient' });
+
+      expect(matcher.match(text('add  1\t2'))?.params).toEqual({ a: 1, b: 2 });
+      expect(matcher.match(text('add\n1 2'))?.params).toEqual({ a: 1, b: 2 });
+    });
+
+    test('should treat full-width spaces as whitespace', () => {
+      const matcher = createMatcher('hello world <name:word>', undefined, { whitespace: 'lenient' });
+      const result = matcher.match(text('hello　world　　Alice'));
+
+      expect(result?.params).toEqual({ name: 'Alice' });
+      expect(result?.matched[0].data.text).toBe('hello　world');
+    });
+
+    test('should still require whitespace inside literals in lenient mode', () => {
+      const matcher = createMatcher('hello world', undefined, { whitespace: 'lenient' });
+
+      expect(matcher.match(text('helloworld'))).toBeNull();
+    });
+
+    test('should allow whitespace to be omitted in ignore mode', () => {
+      const matcher = createMatcher('hello world <n:number>', undefined, { whitespace: 'ignore' });
+
+      expect(matcher.match(text('helloworld5'))?.params).toEqual({ n: 5 });
+      expect(matcher.match(text('hello   world  5'))?.params).toEqual({ n: 5 });
+    });
+
+    test('should combine with case-insensitive matching', () => {
+      const matcher = createMatcher('Hello World', undefined, { whitespace: 'lenient', caseInsensitive: true });
+
+      expect(matcher.match(text('hello \t WORLD'))).not.toBeNull();
+    });
+  });
+
+  describe('Unicode normalization', () => {
+    test('should not normalize input by default', () => {
+      expect(createMatcher('!roll <n:integer>').match(text('！roll　１２'))).toBeNull();
+    });
+
+    test('should normalize full-width input before matching', () => {
+      const matcher = createMatcher('!roll <n:integer>', undefined, { normalize: true });
+
+      expect(matcher.match(text('！roll　１２'))?.params).toEqual({ n: 12 });
+    });
+
+    test('should normalize pattern literals the same way', () => {
+      const matcher = createMatcher('！help (ａｄｄ|ｒｅｍｏｖｅ)', undefined, { normalize: true });
+
+      expect(matcher.match(text('!help add'))?.params).toEqual({ $1: 'add' });
+      expect(matcher.match(text('！ｈｅｌｐ ｒｅｍｏｖｅ'))?.params).toEqual({ $1: 'remove' });
+    });
+
+    test('should keep the original text in remaining', () => {
+      const segments: MessageSegment[] = [...text('！help ｍｅ，ｐｌｅａｓｅ'), { type: 'face', data: { id: 1 } }, ...text('ｂｙｅ')];
+      const result = createMatcher('!help', undefined, { normalize: true }).match(segments);
+
+      expect(result?.remaining).toEqual([
+        { type: 'text', data: { text: ' ｍｅ，ｐｌｅａｓｅ' } },
+        { type: 'face', data: { id: 1 } },
+        { type: 'text', data: { text: 'ｂｙｅ' } }
+      ]);
+      expect(segments[0].data.text).toBe('！help ｍｅ，ｐｌｅａｓｅ');
+    });
+
+    test('should normalize remaining when asked', () => {
+      const matcher = createMatcher('!help', undefined, { normalize: true, normalizeRemaining: true });
+
+      expect(matcher.match(text('！help ｍｅ'))?.remaining).toEqual(text(' me'));
+    });
+  });
+
+  describe('Glob typed literals', () => {
+    test('should require a segment of the type with any value', () => {
+      const matcher = new SegmentMatcher('hug {at:*}');
+      const result = matcher.match([
+        { type: 'text', data: { text: 'hug ' } },
+        { type: 'at', data: { user_id: 123 } }
+      ]);
+
+      expect(result?.params).toEqual({});
+      expect(result?.matched[1]).toEqual({ type: 'at', data: { user_id: 123 } });
+      expect(matcher.match([
+        { type: 'text', data: { text: 'hug ' } },
+        { type: 'face', data: { id: 1 } }
+      ])).toBeNull();
+    });
+
+    test('should match the mapped field against the glob', () => {
+      const matcher = new SegmentMatcher('{image:*.gif}');
+
+      expect(matcher.match([{ type: 'image', data: { file: 'cat.gif' } }])).not.toBeNull();
+      expect(matcher.match([{ type: 'image', data: { file: 'cat.png' } }])).toBeNull();
+    });
+
+    test('should match a bare wildcard on types without a field mapping', () => {
+      const matcher = new SegmentMatcher('{reply:*}');
+
+      expect(matcher.match([{ type: 'reply', data: { id: 5 } }])?.matched).toEqual([{ type: 'reply', data: { id: 5 } }]);
+      expect(matcher.match([{ type: 'at', data: { user_id: 5 } }])).toBeNull();
+    });
+
+    test('should match whole text segments against text globs', () => {
+      const matcher = new SegmentMatcher('{text:hel*}');
+
+      expect(matcher.match([{ type: 'text', data: { text: 'hello' } }])?.matched).toEqual([{ type: 'text', data: { text: 'hello' } }]);
+      expect(matcher.match([{ type: 'text', data: { text: 'say hello' } }])).toBeNull();
+    });
+
+    test('should allow literals and parameters after a text glob', () => {
+      expect(new SegmentMatcher('{text:hel*} x').match([{ type: 'text', data: { text: 'hello x' } }])?.matched)
+        .toEqual([{ type: 'text', data: { text: 'hello' } }, { type: 'text', data: { text: ' x' } }]);
+      expect(new SegmentMatcher('{text:hel*} <x:word>').match([{ type: 'text', data: { text: 'hello world' } }])?.params)
+        .toEqual({ x: 'world' });
+      expect(new SegmentMatcher('{text:hel*}<x:text>').match([{ type: 'text', data: { text: 'hello world' } }])).not.toBeNull();
+    });
+  });
+
+  describe('Typed literal fields', () => {
+    test('should check every field of the segment data', () => {
+      const matcher = new SegmentMatcher('{image file=a.png sub_type=1}');
+
+      expect(matcher.match([{ type: 'image', data: { file: 'a.png', sub_type: 1 } }])).not.toBeNull();
+      expect(matcher.match([{ type: 'image', data: { file: 'a.png', sub_type: 0 } }])).toBeNull();
+      expect(matcher.match([{ type: 'image', data: { file: 'a.png' } }])).toBeNull();
+    });
+
+    test('should match quoted field values containing spaces', () => {
+      const matcher = new SegmentMatcher('{image file="my cat.png"}');
+
+      expect(matcher.match([{ type: 'image', data: { file: 'my cat.png' } }])).not.toBeNull();
+      expect(matcher.match([{ type: 'image', data: { file: 'cat.png' } }])).toBeNull();
+    });
+
+    test('should support globs in field values', () => {
+      const matcher = new SegmentMatcher('quote {reply id=*} <msg:text>');
+      const result = matcher.match([
+        { type: 'text', data: { text: 'quote ' } },
+        { type: 'reply', data: { id: '42' } },
+        { type: 'text', data: { text: ' hello' } }
+      ]);
+
+      expect(result?.params).toEqual({ msg: 'hello' });
+      expect(matcher.match([
+        { type: 'text', data: { text: 'quote ' } },
+        { type: 'reply', data: {} },
+        { type: 'text', data: { text: ' hello' } }
+      ])).toBeNull();
+    });
+  });
+
+  describe('Object-form segment types', () => {
+    const objectText = (value: string): MessageSegment => ({ type: { name: 'text' }, data: { text: value } });
+
+    test('should match literals and text parameters', () => {
+      const result = new SegmentMatcher('echo <msg:text>').match([objectText('echo hello')]);
+
+      expect(result?.params).toEqual({ msg: 'hello' });
+    });
+
+    test('should match number parameters in object-typed text', () => {
+      const result = new SegmentMatcher('roll <n:number>').match([objectText('roll 6')]);
+
+      expect(result?.params).toEqual({ n: 6 });
+    });
+
+    test('should match typed literals', () => {
+      const matcher = new SegmentMatcher('{face:1}');
+
+      expect(matcher.match([{ type: { name: 'face' }, data: { id: 1 } }])).not.toBeNull();
+      expect(matcher.match([{ type: { name: 'image' }, data: { id: 1 } }])).toBeNull();
+    });
+
+    test('should match segment parameters', () => {
+      const result = new SegmentMatcher('hug <who:at>').match([objectText('hug '), { type: { name: 'at' }, data: { user_id: 42 } }]);
+
+      expect(result?.params).toEqual({ who: 42 });
+    });
+
+    test('should collect rest parameters of the type', () => {
+      const images: MessageSegment[] = [
+        { type: { name: 'image' }, data: { file: 'a.png' } },
+        { type: { name: 'image' }, data: { file: 'b.png' } }
+      ];
+      const result = new SegmentMatcher('save [...pics:image]').match([objectText('save '), ...images]);
+
+      expect(result?.params).toEqual({ pics: ['a.png', 'b.png'] });
+    });
+
+    test('should check the same segment against different types', () => {
+      const segment: MessageSegment = { type: { name: 'at' }, data: { user_id: 42 } };
+      const matcher = new SegmentMatcher('{face:1}');
+
+      expect(matcher.match([segment])).toBeNull();
+      expect(new SegmentMatcher('<who:at>').match([segment])?.params).toEqual({ who: 42 });
+    });
+  });
+
+  describe('Runtime default values', () => {
+    afterEach(() => {
+      DefaultValueRegistry.unregisterProvider('today');
+    });
+
+    test('should resolve defaults from the match context', () => {
+      const matcher = new SegmentMatcher('hug [who:at=$sender]');
+
+      expect(matcher.match(text('hug'), { sender: 42 })?.params).toEqual({ who: 42 });
+      expect(matcher.match([...text('hug '), { type: 'at', data: { user_id: 7 } }], { sender: 42 })?.params).toEqual({ who: 7 });
+    });
+
+    test('should resolve defaults from registered providers', () => {
+      DefaultValueRegistry.registerProvider('today', () => '2024-01-01');
+      const matcher = new SegmentMatcher('log [date:text=$today] [--page:integer=$lastPage]');
+
+      expect(matcher.match(text('log'), { lastPage: 3 })?.params).toEqual({ date: '2024-01-01', page: 3 });
+    });
+
+    test('should keep the raw value when the name is neither in the context nor registered', () => {
+      const matcher = new SegmentMatcher('pay [cur:word=$USD]');
+
+      expect(matcher.match(text('pay'))?.params).toEqual({ cur: '$USD' });
+      expect(matcher.match(text('pay'), { USD: 'dollar' })?.params).toEqual({ cur: 'dollar' });
+    });
+
+    test('should reject runtime defaults that do not fit the type or constraints', () => {
+      const matcher = new SegmentMatcher('go [d:integer(1..5)=$n]');
+
+      expect(matcher.match(text('go'), { n: 3 })?.params).toEqual({ d: 3 });
+      expect(matcher.match(text('go 4'), { n: 99 })?.params).toEqual({ d: 4 });
+      expect(matcher.matchDetailed(text('go'), { n: 99 }).failure).toMatchObject({
+        reason: 'invalid_default',
+        value: 99,
+        message: "Default value 99 of 'd' is out of range: d must be between 1 and 5"
+      });
+      expect(matcher.explain(text('go'), { n: '3' })?.message).toBe('Default value "3" of \'d\' is not a valid integer');
+    });
+
+    test('should reject unknown runtime defaults for non-text parameters', () => {
+      const matcher = new SegmentMatcher('go [page:integer=$lastPage] [-n|--count:integer=$count]');
+
+      expect(matcher.explain(text('go'), { count: 1 })).toMatchObject({ reason: 'invalid_default', message: "Unknown default value provider '$lastPage' for 'page'" });
+      expect(matcher.explain(text('go'), { lastPage: 2 })).toMatchObject({ reason: 'invalid_default', message: "Unknown default value provider '$count' for 'count'" });
+      expect(matcher.match(text('go'), { lastPage: 2, count: 'x' })).toBeNull();
+      expect(matcher.match(text('go'), { lastPage: 2, count: 1 })?.params).toEqual({ page: 2, count: 1 });
+    });
+
+    test('should fall back to the type default when a provider returns undefined', () => {
+      DefaultValueRegistry.registerProvider('today', () => undefined);
+      const matcher = new SegmentMatcher('page [n:integer=$lastPage] [note:text=$today]');
+
+      expect(matcher.match(text('page'), { lastPage: undefined })?.params).toEqual({ n: null, note: '' });
+    });
+
+    test('should treat escaped dollar defaults as plain strings', () => {
+      const matcher = new SegmentMatcher('pay [cur:word=\\$USD]');
+
+      expect(matcher.getTokens()[2].defaultProvider).toBeUndefined();
+      expect(matcher.match(text('pay'), { USD: 'dollar' })?.params).toEqual({ cur: '$USD' });
+    });
+
+    test('should pass the context through matchDetailed', () => {
+      const matcher = new SegmentMatcher('hug [who:at=$sender]');
+
+      expect(matcher.matchDetailed(text('hug'), { sender: 42 }).result?.params).toEqual({ who: 42 });
+    });
+  });
+
+  describe('Text modes', () => {
+    test('should capture as little as possible with text?', () => {
+      const result = new SegmentMatcher('note <title:text?> - <body:text>').match(text('note a - b - c'));
+
+      expect(result?.params).toEqual({ title: 'a', body: 'b - c' });
+    });
+
+    test('should capture up to the next literal with text~', () => {
+      const result = new SegmentMatcher('<a:text~> and <b:text>').match(text('cats and dogs and mice'));
+
+      expect(result?.params).toEqual({ a: 'cats', b: 'dogs and mice' });
+    });
+
+    test('should split several sentence arguments with text~', () => {
+      const result = new SegmentMatcher('remind <who:text~> at <when:text~> to <what:text>').match(text('remind the team at 5 pm to ship it'));
+
+      expect(result?.params).toEqual({ who: 'the team', when: '5 pm', what: 'ship it' });
+    });
+
+    test('should not backtrack past the delimiter with text~', () => {
+      expect(new SegmentMatcher('<a:text~> and <b:number>').match(text('x and y and 1'))).toBeNull();
+    });
+
+    test('should find the text~ delimiter with the matcher options', () => {
+      const caseInsensitive = new SegmentMatcher('<a:text~> to <b:text>', undefined, { caseInsensitive: true });
+      const lenient = new SegmentMatcher('<a:text~> to <b:text>', undefined, { whitespace: 'lenient' });
+
+      expect(caseInsensitive.match(text('a TO b'))?.params).toEqual({ a: 'a', b: 'b' });
+      expect(lenient.match(text('a\tto b'))?.params).toEqual({ a: 'a', b: 'b' });
+      expect(lenient.match(text('a  to b'))?.params).toEqual({ a: 'a', b: 'b' });
+    });
+
+    test('should capture up to the end of line with text$', () => {
+      const result = new SegmentMatcher('post <title:text$>\n<body:text>').match(text('post My title\nline 1\nline 2'));
+
+      expect(result?.params).toEqual({ title: 'My title', body: 'line 1\nline 2' });
+    });
+
+    test('should not include the carriage return of CRLF line breaks with text$', () => {
+      expect(new SegmentMatcher('post <title:text$>').match(text('post a\r\nb'))?.params).toEqual({ title: 'a' });
+      expect(new SegmentMatcher('post <title:text$>\n<body:text>').match(text('post a\r\nb'))?.params).toEqual({ title: 'a', body: 'b' });
+    });
+
+    test('should take the whole segment when there is no line break', () => {
+      const result = new SegmentMatcher('post <title:text$>').match(text('post My title'));
+
+      expect(result?.params).toEqual({ title: 'My title' });
+    });
+
+    test('should still prefer quoted text', () => {
+      const result = new SegmentMatcher('<a:text~>, <b:text>').match(text('"x, y", z'));
+
+      expect(result?.params).toEqual({ a: 'x, y', b: 'z' });
+    });
+  });
+
+  describe('Search', () => {
+    test('should find the pattern in the middle of a text segment', () => {
+      const found = new SegmentMatcher('remind me in <n:integer> min').search(text('ok, remind me in 5 min please'));
+
+      expect(found?.prefix).toEqual(text('ok, '));
+      expect(found?.result.params).toEqual({ n: 5 });
+      expect(found?.suffix).toEqual(text(' please'));
+    });
+
+    test('should find the pattern after other segments', () => {
+      const segments: MessageSegment[] = [{ type: 'face', data: { id: 1 } }, ...text('hug '), { type: 'at', data: { user_id: 42 } }];
+      const found = new SegmentMatcher('hug <who:at>').search(segments);
+
+      expect(found?.prefix).toEqual([{ type: 'face', data: { id: 1 } }]);
+      expect(found?.result.params).toEqual({ who: 42 });
+      expect(found?.suffix).toEqual([]);
+    });
+
+    test('should return null when the pattern does not occur', () => {
+      expect(new SegmentMatcher('remind me in <n:integer> min').search(text('remind me later'))).toBeNull();
+    });
+
+    test('should ignore matches that consume nothing', () => {
+      const found = new SegmentMatcher('[n:number]').search(text('page 12'));
+
+      expect(found?.prefix).toEqual(text('page '));
+      expect(found?.result.params).toEqual({ n: 12 });
+    });
+
+    test('should find all non-overlapping occurrences', () => {
+      const results = new SegmentMatcher('<n:integer> min').searchAll(text('5 min, then 10 min, done'));
+
+      expect(results.map(found => found.result.params)).toEqual([{ n: 5 }, { n: 10 }]);
+      expect(results[1].prefix).toEqual(text(', then '));
+      expect(results[1].suffix).toEqual(text(', done'));
+    });
+
+    test('should return an empty array when nothing is found', () => {
+      expect(new SegmentMatcher('{at:*}').searchAll(text('nobody here'))).toEqual([]);
+    });
+
+    test('should validate segments', () => {
+      const matcher = new SegmentMatcher('hello');
+
+      expect(() => matcher.search(null as any)).toThrow(ValidationError);
+      expect(() => matcher.searchAll(null as any)).toThrow(ValidationError);
+    });
+  });
+
+  describe('Full match', () => {
+    test('should keep accepting leftover segments by default', () => {
+      expect(new SegmentMatcher('ping').match(text('ping garbage'))?.remaining).toEqual(text(' garbage'));
+    });
+
+    test('should reject leftover segments', () => {
+      const matcher = createMatcher('ping', undefined, { fullMatch: true });
+
+      expect(matcher.match(text('ping'))).not.toBeNull();
+      expect(matcher.match(text('ping garbage'))).toBeNull();
+      expect(matcher.match([...text('ping'), { type: 'face', data: { id: 1 } }])).toBeNull();
+    });
+
+    test('should allow trailing whitespace unless disabled', () => {
+      expect(createMatcher('ping', undefined, { fullMatch: true }).match(text('ping  '))?.remaining).toEqual(text('  '));
+      expect(createMatcher('ping', undefined, { fullMatch: true, allowTrailingWhitespace: false }).match(text('ping  '))).toBeNull();
+    });
+
+    test('should backtrack to consume the whole message', () => {
+      const result = createMatcher('echo <msg:text?>', undefined, { fullMatch: true }).match(text('echo hello world'));
+
+      expect(result?.params).toEqual({ msg: 'hello world' });
+    });
+
+    test('should report the leftover input', () => {
+      const { result, failure } = createMatcher('add <n:number>', undefined, { fullMatch: true }).matchDetailed(text('add 5 6'));
+
+      expect(result).toBeNull();
+      expect(failure?.reason).toBe('unmatched_remaining');
+      expect(failure?.token).toBeUndefined();
+      expect(failure?.value).toEqual(text(' 6'));
+      expect(failure?.message).toBe('Unexpected trailing input: " 6"');
+    });
+
+    test('should apply to patterns with options', () => {
+      const matcher = createMatcher('ping [-v]', undefined, { fullMatch: true });
+
+      expect(matcher.match(text('ping -v'))?.params).toEqual({ v: true });
+      expect(matcher.match(text('ping -v now'))).toBeNull();
+    });
+  });
+
+  describe('Explain', () => {
+    const matcher = new SegmentMatcher('buy <count:number> <item:word>');
+
+    test('should return null when the segments match', () => {
+      expect(matcher.explain(text('buy 3 apples'))).toBeNull();
+    });
+
+    test('should describe the token that did not match', () => {
+      const failure = matcher.explain(text('buy abc apples'));
+
+      expect(failure?.reason).toBe('unexpected_input');
+      expect(failure?.tokenIndex).toBe(2);
+      expect(failure?.token).toBe(matcher.getTokens()[2]);
+      expect(failure?.expected).toBe('a number for <count>');
+      expect(failure?.found).toBe("'abc'");
+      expect(failure?.matched).toEqual([{ type: 'text', data: { text: 'buy' } }, { type: 'text', data: { text: ' ' } }]);
+      expect(failure?.message).toBe("Expected a number for <count>, got 'abc'");
+    });
+
+    test('should report missing input at the end of the message', () => {
+      const failure = matcher.explain(text('buy 3'));
+
+      expect(failure?.reason).toBe('missing_input');
+      expect(failure?.message).toBe('Expected a word for <item>, got end of input');
+      expect(new SegmentMatcher('ping').explain([])?.reason).toBe('missing_input');
+    });
+
+    test('should report the furthest failure after backtracking', () => {
+      const failure = new SegmentMatcher('send <msg:text> to <who:at>').explain(text('send hi to bob'));
+
+      expect(failure?.message).toBe("Expected an at segment for <who>, got 'bob'");
+    });
+
+    test('should describe literals, choices and segment types', () => {
+      expect(new SegmentMatcher('ping').explain(text('pong'))?.message).toBe("Expected 'ping', got 'pong'");
+      expect(new SegmentMatcher('(add|remove) <n:integer>').explain(text('list 5'))?.expected).toBe("one of 'add', 'remove'");
+      expect(new SegmentMatcher('{face:1}').explain([{ type: 'image', data: { file: 'a.png' } }])?.message).toBe('Expected a face segment, got an image segment');
+    });
+
+    test('should report missing required options', () => {
+      const failure = new SegmentMatcher('mv <--to:at>').explain(text('mv'));
+
+      expect(failure?.reason).toBe('missing_input');
+      expect(failure?.expected).toBe('option --to');
+    });
+
+    test('should prefer constraint violations', () => {
+      expect(new SegmentMatcher('roll <n:integer(1..100)>').explain(text('roll 150'))?.reason).toBe('constraint_violation');
+    });
+  });
+
+  describe('Match all', () => {
+    test('should enumerate every parse of an ambiguous pattern', () => {
+      const results = new SegmentMatcher('[a:number][b:text]').matchAll(text('12 34'));
+
+      expect(results.map(result => result.params)).toEqual([{ a: 12, b: ' 34' }, { a: null, b: '12 34' }]);
+      expect(results.every(result => result.remaining.length === 0)).toBe(true);
+    });
+
+    test('should only return parses that consume the most input', () => {
+      const matcher = new SegmentMatcher('[a:number][b:text]');
+
+      expect(matcher.matchAll(text('x'.repeat(200))).map(result => result.params)).toEqual([{ a: null, b: 'x'.repeat(200) }]);
+      expect(new SegmentMatcher('[n:number]').matchAll(text('12 a')).map(result => result.params)).toEqual([{ n: 12 }]);
+    });
+
+    test('should rank parses with fewer defaults first', () => {
+      const results = new SegmentMatcher('[a:number][b:text]').matchAll(text('12 34'));
+      const firstDefault = results.findIndex(result => result.params.a === null);
+
+      expect(results[0].params).toEqual({ a: 12, b: ' 34' });
+      expect(firstDefault).toBeGreaterThan(0);
+      expect(results.slice(firstDefault).every(result => result.params.a === null)).toBe(true);
+    });
+
+    test('should rank parses with longer literals first', () => {
+      const matcher = new SegmentMatcher('<stem:text>(suffix:ly|y)');
+      const results = matcher.matchAll(text('fly'));
+
+      expect(matcher.match(text('fly'))?.params).toEqual({ stem: 'fl', suffix: 'y' });
+      expect(results.map(result => result.params)).toEqual([{ stem: 'f', suffix: 'ly' }, { stem: 'fl', suffix: 'y' }]);
+    });
+
+    test('should return a single result for an unambiguous pattern', () => {
+      const results = new SegmentMatcher('cmd <n:number> [-v]').matchAll(text('cmd 5 -v'));
+
+      expect(results.map(result => result.params)).toEqual([{ n: 5, v: true }]);
+      expect(results[0].remaining).toEqual([]);
+    });
+
+    test('should return an empty array when nothing matches', () => {
+      expect(new SegmentMatcher('ping').matchAll(text('pong'))).toEqual([]);
+    });
+
+    test('should restore the original text of remaining segments when normalizing', () => {
+      const matcher = new SegmentMatcher('[n:number]', undefined, { normalize: true });
+      const results = matcher.matchAll(text('１２ ａ'));
+
+      expect(results[0].params).toEqual({ n: 12 });
+      expect(results[0].remaining).toEqual(text(' ａ'));
+    });
+
+    test('should throw ValidationError for invalid segments', () => {
+      expect(() => new SegmentMatcher('ping').matchAll(null as unknown as MessageSegment[])).toThrow(ValidationError);
+    });
+  });
 }); 
\ No newline at end of file
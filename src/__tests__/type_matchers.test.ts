@@ -5,7 +5,9 @@ import {
   BooleanTypeMatcher,
   TextTypeMatcher,
   TypeMatcherRegistry,
-  TypeMatcher
+  TypeMatcher,
+  RegexTypeMatcher,
+  EnumTypeMatcher
 } from '../type_matchers';
 
 describe('Type Matchers', () => {
@@ -142,4 +144,48 @@ describe('Type Matchers', () => {
       expect(types).toContain('text');
     });
   });
+
+  describe('RegexTypeMatcher', () => {
+    const matcher = new RegexTypeMatcher(/(?<key>[A-Z]{4})-(?<num>\d+)/);
+
+    test('should match whole text only', () => {
+      expect(matcher.match('ABCD-12')).toEqual({
+        success: true,
+        value: { match: 'ABCD-12', groups: { key: 'ABCD', num: '12' } }
+      });
+      expect(matcher.match('ABCD-12 rest')).toEqual({ success: false });
+    });
+
+    test('should match prefix and report its length', () => {
+      const result = matcher.matchPrefix('ABCD-12 rest');
+      
+      expect(result.success).toBe(true);
+      expect(result.length).toBe(7);
+      expect(result.value.match).toBe('ABCD-12');
+      expect(matcher.matchPrefix('x ABCD-12')).toEqual({ success: false });
+    });
+  });
+
+  describe('EnumTypeMatcher', () => {
+    test('should match listed choices only', () => {
+      const matcher = new EnumTypeMatcher(['on', 'off', 'auto']);
+
+      expect(matcher.match('on')).toEqual({ success: true, value: 'on' });
+      expect(matcher.match('ON')).toEqual({ success: false });
+      expect(matcher.match('maybe')).toEqual({ success: false });
+    });
+
+    test('should return canonical choice when case-insensitive', () => {
+      const matcher = new EnumTypeMatcher(['On', 'Off'], true);
+
+      expect(matcher.match('ON')).toEqual({ success: true, value: 'On' });
+      expect(matcher.match('off')).toEqual({ success: true, value: 'Off' });
+    });
+
+    test('should not match non-string input when case-insensitive', () => {
+      const matcher = new EnumTypeMatcher(['On', 'Off'], true);
+
+      expect(matcher.match(undefined as unknown as string)).toEqual({ success: false });
+    });
+  });
 });
\ No newline at end of file
@@ -1,8 +1,11 @@
-import { MessageSegment, MatchResponse } from './types';
+import { MessageSegment, MatchResponse, MatchFailure, SegmentMatcherOptions, DefaultValueContext } from './types';
 import { PatternToken } from './pattern_token';
 import { MatchResult } from './match_result';
-import { TypeMatcherRegistry } from './type_matchers';
-import { FieldMappingConfig, extractFieldValue } from './field_mapping';
+import { TypeMatcherRegistry, TypeMatchResult } from './type_matchers';
+import { FieldMappingConfig, extractFieldValue, getSegmentType } from './field_mapping';
+import { checkConstraints } from './constraints';
+import { DefaultValueRegistry, checkDefaultValue } from './default_values';
+import { OPTION_NAME_SOURCE } from './pattern_parser';
 
 /**
  * 性能优化的深拷贝函数
@@ -90,22 +93,25 @@ function simpleDeepClone<T>(obj: T): T {
 }
 
 /**
- * 类型检查缓存
+ * 消息段类型名缓存
  */
-const typeCheckCache = new WeakMap<object, boolean>();
+const segmentTypeCache = new WeakMap<object, string>();
 
 /**
  * 缓存类型检查结果
+ * 
+ * 缓存的是消息段的类型名（同时支持字符串和 `{ name }` 形式），
+ * 同一消息段可以与不同的期望类型比较。
  */
 function cachedTypeCheck(segment: MessageSegment, expectedType: string): boolean {
   const cacheKey = segment as object;
-  if (typeCheckCache.has(cacheKey)) {
-    return typeCheckCache.get(cacheKey)!;
+  let type = segmentTypeCache.get(cacheKey);
+  if (type === undefined) {
+    type = getSegmentType(segment);
+    segmentTypeCache.set(cacheKey, type);
   }
   
-  const result = segment.type === expectedType;
-  typeCheckCache.set(cacheKey, result);
-  return result;
+  return type === expectedType;
 }
 
 /**
@@ -142,6 +148,259 @@ function optimizedSplitText(text: string, pattern: string): { beforeText: string
   };
 }
 
+/**
+ * 判断空白处理策略是否允许空白长度不同
+ */
+function isFlexibleWhitespace(options: SegmentMatcherOptions): boolean {
+  return options.whitespace === 'lenient' || options.whitespace === 'ignore';
+}
+
+/**
+ * 匹配文本开头的一段文字
+ * 
+ * 启用 caseInsensitive 时按 locale 忽略大小写比较（如 `Help` 匹配 `help`）。
+ * 
+ * @returns 文本中对应的原始写法，不匹配时返回 null
+ */
+function matchTextPrefix(text: string, expected: string, options: SegmentMatcherOptions): string | null {
+  if (text.startsWith(expected)) {
+    return expected;
+  }
+  
+  if (options.caseInsensitive) {
+    const prefix = text.substring(0, expected.length);
+    if (prefix.length === expected.length && prefix.localeCompare(expected, options.locale, { sensitivity: 'accent' }) === 0) {
+      return prefix;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * 匹配文本开头的字面量
+ * 
+ * 按空白处理策略比较字面量中的空白：lenient 时字面量中的一段空白匹配输入中任意一段空白
+ * （包括制表符、换行和全角空格），ignore 时还可以匹配零个空白；其他情况下空白必须完全一致。
+ * 
+ * @param text - 输入文本
+ * @param literal - 期望的字面量
+ * @param options - 匹配器选项
+ * @returns 文本中与字面量对应的原始写法（可能为空字符串），不匹配时返回 null
+ */
+function matchLiteralPrefix(text: string, literal: string, options: SegmentMatcherOptions): string | null {
+  if (!isFlexibleWhitespace(options)) {
+    return matchTextPrefix(text, literal, options);
+  }
+  
+  let index = 0;
+  for (const part of literal.split(/(\s+)/)) {
+    if (!part) {
+      continue;
+    }
+    
+    if (/^\s/.test(part)) {
+      // 消费输入中的整段空白
+      const whitespace = /\s*/y;
+      whitespace.lastIndex = index;
+      whitespace.exec(text);
+      if (whitespace.lastIndex === index && options.whitespace === 'lenient') {
+        return null;
+      }
+      index = whitespace.lastIndex;
+    } else {
+      const matched = matchTextPrefix(text.substring(index), part, options);
+      if (matched === null) {
+        return null;
+      }
+      index += matched.length;
+    }
+  }
+  
+  return text.substring(0, index);
+}
+
+/**
+ * 计算剩余消息段的长度
+ * 
+ * @param remaining - 剩余消息段
+ * @returns 文本段按文本长度计算，其他消息段计为 1
+ */
+function getRemainingLength(remaining: MessageSegment[]): number {
+  return remaining.reduce((length, segment) => length + (cachedTypeCheck(segment, 'text') && typeof segment.data?.text === 'string' ? segment.data.text.length : 1), 0);
+}
+
+/**
+ * 查找文本中字面量第一次出现的位置
+ * 
+ * 与 matchLiteralPrefix 使用相同的大小写和空白规则，匹配结果为空的位置不算出现。
+ * 
+ * @param text - 输入文本
+ * @param literal - 要查找的字面量
+ * @param options - 匹配器选项
+ * @returns 字面量开始的位置，找不到时返回 -1
+ */
+function findLiteral(text: string, literal: string, options: SegmentMatcherOptions): number {
+  for (let index = 0; index < text.length; index++) {
+    if (matchLiteralPrefix(text.substring(index), literal, options)) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 查找文本中引号包裹的部分
+ * 
+ * 与 text 参数的引号规则一致：引号位于文本开头或空白之后，到下一个相同的引号为止，
+ * 因此单词中间的撇号（如 `don't`）不会开始引号部分。
+ * 
+ * @param text - 文本
+ * @returns 每个引号部分的开始位置和结束位置（不包含）
+ */
+function findQuotedSpans(text: string): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  const quotePattern = /(^|\s)(["'])/g;
+  let match: RegExpExecArray | null;
+  
+  while ((match = quotePattern.exec(text))) {
+    const start = match.index + match[1].length;
+    const end = text.indexOf(match[2], start + 1);
+    if (end === -1) {
+      break;
+    }
+    spans.push([start, end + 1]);
+    quotePattern.lastIndex = end + 1;
+  }
+  return spans;
+}
+
+/**
+ * 判断令牌是否为参数之间的可选分隔空格（由 optimizeParameterSpaces 生成）
+ */
+function isSeparator(token: PatternToken): boolean {
+  return token.type === 'literal' && !!token.optional && !token.quantifier && !(token.value || '').trim();
+}
+
+/**
+ * 为名词加上不定冠词，如 `an integer`、`a number`
+ */
+function withArticle(noun: string): string {
+  return `${/^[aeiou]/i.test(noun) ? 'an' : 'a'} ${noun}`;
+}
+
+/**
+ * 描述令牌期望的输入
+ * 
+ * @example
+ * ```typescript
+ * describeExpected(PatternToken.createParameter('count', 'number')); // 'a number for <count>'
+ * describeExpected(PatternToken.createLiteral('ping')); // "'ping'"
+ * ```
+ */
+function describeExpected(token: PatternToken): string {
+  switch (token.type) {
+    case 'literal':
+      return `'${token.value?.trim() || token.value}'`;
+    case 'alternation':
+      return `one of ${(token.alternatives || []).map(choice => `'${choice}'`).join(', ')}`;
+    case 'typed_literal':
+      return `${withArticle(token.segmentType || '')} segment`;
+    case 'option':
+      return `option ${(token.optionNames || []).join('|')}`;
+  }
+  
+  const target = token.name ? ` for <${token.name}>` : '';
+  if (token.dataType === 'enum' && token.choices) {
+    return `one of ${token.choices.map(choice => `'${choice}'`).join(', ')}${target}`;
+  }
+  if (token.dataType === 'regex' && token.regex) {
+    return `text matching ${token.regex}${target}`;
+  }
+  if (!token.dataType || token.dataType === 'text') {
+    return `some text${target}`;
+  }
+  // 没有类型匹配器的数据类型是消息段类型，如 at、image
+  const noun = TypeMatcherRegistry.getMatcher(token.dataType) ? token.dataType : `${token.dataType} segment`;
+  return `${withArticle(noun)}${target}`;
+}
+
+/**
+ * 描述匹配失败位置实际遇到的输入
+ * 
+ * 文本段取第一个单词，其他消息段只描述类型，没有消息段时为 `end of input`。
+ */
+function describeFound(segment: MessageSegment | undefined): string {
+  if (!segment) {
+    return 'end of input';
+  }
+  if (cachedTypeCheck(segment, 'text') && typeof segment.data?.text === 'string') {
+    const word = segment.data.text.trim().split(/\s+/)[0];
+    return word ? `'${word}'` : 'whitespace';
+  }
+  return `${withArticle(getSegmentType(segment))} segment`;
+}
+
+/**
+ * 回溯匹配的候选分支
+ */
+interface MatchBranch {
+  /** 令牌的匹配响应（newSegmentIndex 总是存在） */
+  response: MatchResponse;
+  /** 该分支对应的消息段数组（可能插入了分割后的文本） */
+  segments: MessageSegment[];
+  /** text 参数是否在回溯中只捕获了文本段的前缀 */
+  split?: boolean;
+}
+
+/**
+ * 回溯匹配结束时的状态
+ */
+interface MatchState {
+  /** 最终分支的消息段数组 */
+  segments: MessageSegment[];
+  /** 第一个未被匹配的消息段索引 */
+  segmentIndex: number;
+}
+
+/**
+ * 一种解析及其排序依据
+ */
+interface ParseCandidate {
+  /** 匹配结果 */
+  result: MatchResult;
+  /** 使用默认值的参数数量 */
+  defaults: number;
+  /** 字面量匹配的文本长度 */
+  literalLength: number;
+}
+
+/**
+ * 从消息段中提取命名选项的结果
+ */
+interface OptionExtraction {
+  /** 移除选项后的消息段数组 */
+  segments: MessageSegment[];
+  /** 选项值（参数名 → 值） */
+  values: Record<string, any>;
+}
+
+/**
+ * 一次匹配过程中共享的上下文
+ */
+interface MatchContext {
+  /** 类型化字面量的字段映射 */
+  typedLiteralFieldMap?: FieldMappingConfig;
+  /** 收集匹配失败信息的数组 */
+  failures?: MatchFailure[];
+  /** 匹配器选项 */
+  options: SegmentMatcherOptions;
+  /** 运行时默认值的上下文 */
+  defaults?: DefaultValueContext;
+  /** 已确认无法匹配的回溯状态（按令牌数组分组），避免重复搜索 */
+  failedStates?: Map<PatternToken[], Set<string>>;
+}
+
 /**
  * 消息段匹配器类
  * 
@@ -163,9 +422,15 @@ export class BasicMatcher {
    * 根据模式令牌数组匹配消息段，提取参数并收集剩余消息段。
    * 支持空格敏感匹配和自定义字段映射。
    * 
+   * 匹配采用回溯算法：当后续令牌无法匹配时，会回退并尝试
+   * 贪婪 text 参数的更短分割以及可选令牌的跳过分支。
+   * 
    * @param pattern - 解析后的模式令牌数组
    * @param segments - 消息段数组
    * @param typedLiteralFieldMap - 自定义的类型化字面量字段映射（可选）
+   * @param failures - 收集匹配失败信息的数组（可选），例如参数值不满足约束
+   * @param options - 匹配器选项（可选），例如忽略字面量大小写
+   * @param defaults - 运行时默认值的上下文（可选），用于解析 `[who:at=$sender]` 等默认值
    * @returns 匹配结果或 null（匹配失败时）
    * 
    * @example
@@ -177,110 +442,818 @@ export class BasicMatcher {
    * const customResult = BasicMatcher.match(tokens, segments, {
    *   image: 'src'  // 使用 'src' 字段而不是默认的 'file' 或 'url'
    * });
+   * 
+   * // 忽略字面量大小写
+   * BasicMatcher.match(tokens, segments, undefined, undefined, { caseInsensitive: true });
    * ```
    */
-  static match(pattern: PatternToken[], segments: MessageSegment[], typedLiteralFieldMap?: FieldMappingConfig): MatchResult | null {
+  static match(pattern: PatternToken[], segments: MessageSegment[], typedLiteralFieldMap?: FieldMappingConfig, failures?: MatchFailure[], options: SegmentMatcherOptions = {}, defaults?: DefaultValueContext): MatchResult | null {
+    return BasicMatcher.matchTokens(pattern, segments, { typedLiteralFieldMap, failures, options, defaults });
+  }
+
+  /**
+   * 列出消息段的所有有效解析
+   * 
+   * 与 match 不同，不在第一种解析处停止，而是枚举回溯中所有可行的匹配方式，
+   * 用于发现有歧义的模式（如 `[a:number][b:text]` 匹配 `12 34`）并显式选择最合适的解释。
+   * 
+   * 只比较消耗输入最多的解析：剩余消息段更长的解析（如 text 参数只捕获一部分前缀）不会返回，
+   * 避免每个 text 前缀都被算作一种解析。剩余长度按文本长度计算，非文本消息段计为 1。
+   * 
+   * 参数和剩余消息段都相同的解析只保留一个。结果按以下规则排序，规则相同时保持回溯顺序：
+   * 1. 使用默认值的参数越少越靠前
+   * 2. 字面量（包括多选字面量和类型化字面量）匹配的文本越长越靠前
+   * 
+   * 因此第一个结果不一定与 match 的结果相同。
+   * 
+   * @param pattern - 解析后的模式令牌数组
+   * @param segments - 消息段数组
+   * @param typedLiteralFieldMap - 自定义的类型化字面量字段映射（可选）
+   * @param options - 匹配器选项（可选）
+   * @param defaults - 运行时默认值的上下文（可选）
+   * @returns 按排序规则排列的匹配结果，没有有效解析时返回空数组
+   * 
+   * @example
+   * ```typescript
+   * const results = BasicMatcher.matchAll(PatternParser.parse('[a:number] [b:text]'), segments);
+   * // 输入 '12 34' → [{ a: 12, b: '34' }, { a: null, b: '12 34' }]
+   * ```
+   */
+  static matchAll(pattern: PatternToken[], segments: MessageSegment[], typedLiteralFieldMap?: FieldMappingConfig, options: SegmentMatcherOptions = {}, defaults?: DefaultValueContext): MatchResult[] {
+    const context: MatchContext = { typedLiteralFieldMap, options, defaults };
+    const compare = (a: ParseCandidate, b: ParseCandidate) => a.defaults - b.defaults || b.literalLength - a.literalLength;
+    const unique = new Map<string, ParseCandidate>();
+    let leastRemaining = Infinity;
+    
+    for (const candidate of BasicMatcher.enumerateParses(pattern, segments, context)) {
+      if (!candidate.result.isValid()) {
+        continue;
+      }
+      
+      // 只保留消耗输入最多的解析
+      const remaining = getRemainingLength(candidate.result.remaining);
+      if (remaining > leastRemaining) {
+        continue;
+      }
+      if (remaining < leastRemaining) {
+        leastRemaining = remaining;
+        unique.clear();
+      }
+      
+      const key = JSON.stringify([candidate.result.params, candidate.result.remaining]);
+      const existing = unique.get(key);
+      if (!existing || compare(candidate, existing) < 0) {
+        unique.set(key, candidate);
+      }
+    }
+    
+    return Array.from(unique.values()).sort(compare).map(candidate => candidate.result);
+  }
+
+  /**
+   * 使用匹配上下文匹配消息段
+   * 
+   * @param pattern - 解析后的模式令牌数组
+   * @param segments - 消息段数组
+   * @param context - 匹配上下文
+   * @returns 匹配结果或 null（匹配失败时）
+   */
+  private static matchTokens(pattern: PatternToken[], segments: MessageSegment[], context: MatchContext): MatchResult | null {
+    const first = BasicMatcher.enumerateParses(pattern, segments, context).next();
+    
+    // 返回有效的匹配结果，否则返回 null（不再尝试其他解析）
+    return !first.done && first.value.result.isValid() ? first.value.result : null;
+  }
+
+  /**
+   * 按回溯顺序产出消息段的所有解析
+   * 
+   * @param pattern - 解析后的模式令牌数组
+   * @param segments - 消息段数组
+   * @param context - 匹配上下文
+   */
+  private static *enumerateParses(pattern: PatternToken[], segments: MessageSegment[], context: MatchContext): Generator<ParseCandidate> {
+    // 命名选项先从消息段中提取，其余令牌按位置匹配
+    if (pattern.some(token => token.type === 'option')) {
+      yield* BasicMatcher.enumerateParsesWithOptions(pattern, segments, context);
+      return;
+    }
+    
     // 快速路径：空模式或空消息段
     if (!pattern.length) {
-      return segments.length ? new MatchResult() : null;
+      if (segments.length) {
+        yield { result: new MatchResult(), defaults: 0, literalLength: 0 };
+      }
+      return;
     }
     
     if (!segments.length) {
       // 检查是否所有令牌都是可选的
-      const allOptional = pattern.every(token => token.optional || token.type === 'rest_parameter');
+      const allOptional = pattern.every(token => token.optional || token.type === 'rest_parameter' || token.quantifier?.min === 0);
       if (allOptional) {
         const result = new MatchResult();
-        pattern.forEach(token => {
-          if (token.name && token.optional) {
-            const defaultValue = token.defaultValue !== undefined ? token.defaultValue : 
-                               (token.dataType === 'text' ? '' : null);
-            result.addParam(token.name, defaultValue);
-          } else if (token.name && token.type === 'rest_parameter') {
-            result.addParam(token.name, []);
-          }
-        });
-        return result;
+        const responses = pattern.map(token => BasicMatcher.getSkipResponse(token, 0, context));
+        if (!responses.every(response => response.success)) {
+          return;
+        }
+        responses.forEach(response => BasicMatcher.collectResponse(result, response));
+        yield { result, ...BasicMatcher.scorePath(pattern, responses) };
+        return;
       }
-      return null;
+      const index = pattern.findIndex(token => !(token.optional || token.type === 'rest_parameter' || token.quantifier?.min === 0));
+      BasicMatcher.recordMismatch(pattern[index], index, undefined, [], context);
+      return;
     }
     
-    const result = new MatchResult();
     const segmentsCopy = optimizedDeepClone(segments) as MessageSegment[]; // 使用优化的深拷贝
+    const path: MatchResponse[] = []; // 当前分支上每个令牌的匹配响应
+    
+    // 从第一个令牌、第一个消息段开始回溯搜索
+    for (const end of BasicMatcher.matchPaths(pattern, 0, segmentsCopy, 0, path, context, true)) {
+      const result = new MatchResult();
+      for (const response of path) {
+        BasicMatcher.collectResponse(result, response);
+      }
+      
+      // 处理剩余的消息段（未被模式匹配的部分）
+      for (let i = end.segmentIndex; i < end.segments.length; i++) {
+        result.addRemaining(end.segments[i]);
+      }
+      
+      yield { result, ...BasicMatcher.scorePath(pattern, path) };
+    }
+  }
+
+  /**
+   * 按回溯顺序产出包含命名选项的模式的所有解析
+   * 
+   * 先从消息段中提取并移除所有选项，再用剩余的位置令牌匹配清理后的消息段，
+   * 最后将选项值合并到参数中。
+   * 
+   * @param pattern - 解析后的模式令牌数组
+   * @param segments - 消息段数组
+   * @param context - 匹配上下文
+   */
+  private static *enumerateParsesWithOptions(pattern: PatternToken[], segments: MessageSegment[], context: MatchContext): Generator<ParseCandidate> {
+    const positional = pattern.filter(token => token.type !== 'option');
+    const options = pattern.filter(token => token.type === 'option');
     
-    let segmentIndex = 0; // 当前处理的消息段索引
-    let patternIndex = 0; // 当前处理的模式令牌索引
+    const extraction = BasicMatcher.extractOptions(options, positional, segments, context);
+    if (!extraction) {
+      return;
+    }
     
-    // 逐个匹配模式令牌和消息段
-    while (patternIndex < pattern.length) {
-      const patternToken = pattern[patternIndex];
-      const segment = segmentIndex < segmentsCopy.length ? segmentsCopy[segmentIndex] : undefined;
-  
-      if (segment) {
-        // 尝试匹配当前令牌和消息段
-        const matchResult = BasicMatcher.matchToken(patternToken, segment, segmentsCopy, segmentIndex, typedLiteralFieldMap);
-        if (matchResult.success) {
-          // 匹配成功，添加匹配的消息段
-          if (matchResult.matched) {
-            result.matched.push(...matchResult.matched);
-          }
-          if (matchResult.param) {
-            // 添加提取的参数
-            result.addParam(matchResult.param.name, matchResult.param.value);
-          }
-          // literal 匹配后，判断是否插入了新 segment
-          if (patternToken.type === 'literal') {
-            // 检查 literal 匹配后是否插入了新 segment
-            const matchedText = patternToken.value!;
-            const originalText = segment.type === 'text' && segment.data && typeof segment.data.text === 'string' ? segment.data.text : '';
-            const afterText = originalText.substring(matchedText.length);
-            if (afterText) {
-              // 插入了新 segment，segmentIndex 递增后正好指向新 segment
-              segmentIndex++;
-            } else {
-              // 没有插入新 segment，segmentIndex 递增
-              segmentIndex++;
-            }
+    const addOptionValues = (result: MatchResult) => {
+      for (const name in extraction.values) {
+        result.addParam(name, extraction.values[name]);
+      }
+    };
+    
+    if (positional.length) {
+      for (const candidate of BasicMatcher.enumerateParses(positional, extraction.segments, context)) {
+        addOptionValues(candidate.result);
+        yield candidate;
+      }
+      return;
+    }
+    
+    if (context.options.fullMatch && BasicMatcher.hasUnmatchedRemaining(extraction.segments, 0, context)) {
+      return;
+    }
+    const result = new MatchResult();
+    for (const segment of extraction.segments) {
+      result.addRemaining(segment);
+    }
+    addOptionValues(result);
+    yield { result, defaults: 0, literalLength: 0 };
+  }
+
+  /**
+   * 统计一条匹配路径的排序依据
+   * 
+   * @param tokens - 模式令牌数组
+   * @param responses - 与令牌一一对应的匹配响应
+   * @returns 使用默认值的参数数量和字面量匹配的文本长度
+   */
+  private static scorePath(tokens: PatternToken[], responses: MatchResponse[]): { defaults: number; literalLength: number } {
+    let defaults = 0;
+    let literalLength = 0;
+    
+    responses.forEach((response, index) => {
+      const token = tokens[index];
+      if (token.type === 'group' && response.children) {
+        const inner = BasicMatcher.scorePath(token.children || [], response.children);
+        defaults += inner.defaults;
+        literalLength += inner.literalLength;
+      } else if (response.param && !response.matched) {
+        // 跳过令牌的响应没有匹配的消息段，参数值为默认值
+        defaults++;
+      } else if (token.type === 'literal' || token.type === 'alternation' || token.type === 'typed_literal') {
+        for (const segment of response.matched || []) {
+          literalLength += typeof segment.data?.text === 'string' ? segment.data.text.length : 1;
+        }
+      }
+    });
+    
+    return { defaults, literalLength };
+  }
+
+  /**
+   * 从消息段中提取命名选项
+   * 
+   * 在文本段中查找声明过的选项（`--verbose`、`-n 5`、`--count=5`），
+   * 从文本中移除选项及其值。选项值可以写在同一文本段中，
+   * 也可以是紧随其后的非文本消息段（如 `--to @user`）。
+   * 命令开头的字面量之前不识别选项，单独的 `--` 之后的内容不再识别为选项，
+   * 引号包裹的文本（如 `"use -v here"`）中的内容也不识别为选项。
+   * 
+   * @param options - 命名选项令牌
+   * @param positional - 位置令牌（用于确定命令字面量）
+   * @param segments - 消息段数组（不会被修改）
+   * @param context - 匹配上下文
+   * @returns 提取结果，缺少必需选项或选项值无效时返回 null
+   */
+  private static extractOptions(options: PatternToken[], positional: PatternToken[], segments: MessageSegment[], context: MatchContext): OptionExtraction | null {
+    const optionsByName = new Map<string, PatternToken>();
+    options.forEach(option => option.optionNames!.forEach(optionName => optionsByName.set(optionName, option)));
+    
+    const head = positional.length && positional[0].type === 'literal' && !positional[0].optional ? positional[0].value! : '';
+    const values: Record<string, any> = {};
+    const output: MessageSegment[] = [];
+    let terminated = false; // 遇到 `--` 后不再识别选项
+    let mergeWithPrevious = false; // 选项值占用了整个消息段，前后的文本段需要合并
+    
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const text = segment.data?.text;
+      if (terminated || !cachedTypeCheck(segment, 'text') || typeof text !== 'string' || (i === 0 && matchLiteralPrefix(text, head, context.options) === null)) {
+        output.push(segment);
+        mergeWithPrevious = false;
+        continue;
+      }
+      
+      const optionPattern = new RegExp(`(^|\\s+)(${OPTION_NAME_SOURCE}|--)(?:=(\\S*))?(?=\\s|$)`, 'g');
+      optionPattern.lastIndex = i === 0 ? head.length : 0;
+      const quotedSpans = findQuotedSpans(text);
+      let cleaned = '';
+      let last = 0;
+      let trimStart = false;
+      let consumedNext = false;
+      let match: RegExpExecArray | null;
+      
+      while ((match = optionPattern.exec(text))) {
+        const [whole, leading, optionName, inlineValue] = match;
+        const optionStart = match.index + leading.length;
+        const quoted = quotedSpans.find(([start, end]) => optionStart > start && optionStart < end);
+        if (quoted) {
+          optionPattern.lastIndex = quoted[1];
+          continue;
+        }
+        
+        const option = optionsByName.get(optionName);
+        if (optionName !== '--' && !option) {
+          continue;
+        }
+        
+        let end = match.index + whole.length;
+        if (option && option.dataType === null) {
+          // 布尔开关：--verbose 或 --verbose=false
+          const parsed = inlineValue === undefined ? { success: true, value: true } : TypeMatcherRegistry.getMatcher('boolean')!.match(inlineValue);
+          if (!parsed.success) return null;
+          values[option.name!] = parsed.value;
+        } else if (option) {
+          let valueSegment: MessageSegment;
+          const nextWord = /^\s+(\S+)/.exec(text.substring(end));
+          
+          if (inlineValue) {
+            valueSegment = { type: 'text', data: { text: inlineValue } };
+          } else if (inlineValue === undefined && nextWord) {
+            valueSegment = { type: 'text', data: { text: nextWord[1] } };
+            end += nextWord[0].length;
+          } else if (!text.substring(end).trim() && i + 1 < segments.length) {
+            // 值为下一个消息段，如 `--to @user`
+            valueSegment = segments[i + 1];
+            end = text.length;
+            consumedNext = true;
           } else {
-            // 其他类型，按 matchResult.newSegmentIndex 或默认递增
-            segmentIndex = matchResult.newSegmentIndex !== undefined ? matchResult.newSegmentIndex : segmentIndex + 1;
+            // 缺少选项值
+            return null;
           }
-          patternIndex++;
-          continue;
+          
+          const value = BasicMatcher.parseOptionValue(option, valueSegment, context);
+          if (value === undefined) return null;
+          values[option.name!] = value;
+        } else {
+          terminated = true;
         }
+        
+        // 移除选项（及其前面的空白）；位于文本开头时去掉后面的空白
+        cleaned += text.substring(last, match.index);
+        last = end;
+        trimStart = trimStart || (match.index === 0 && !leading);
+        optionPattern.lastIndex = end;
+        if (terminated || consumedNext) break;
       }
       
-      // 当前消息段不存在或不匹配
-      if (patternToken.optional) {
-        // 处理可选参数或可选字面量（如参数间的单空格）
-        if (patternToken.name) {
-          // 可选参数：设置默认值
-          const defaultValue = patternToken.defaultValue !== undefined ? patternToken.defaultValue : 
-                             (patternToken.dataType === 'text' ? '' : null);
-          result.addParam(patternToken.name, defaultValue);
+      cleaned += text.substring(last);
+      if (trimStart) {
+        cleaned = cleaned.replace(/^\s+/, '');
+      }
+      
+      const previous = output[output.length - 1];
+      if (mergeWithPrevious && previous && cachedTypeCheck(previous, 'text')) {
+        output[output.length - 1] = { type: 'text', data: { text: previous.data.text + cleaned } };
+      } else if (cleaned) {
+        output.push(cleaned === text ? segment : { type: 'text', data: { text: cleaned } });
+      }
+      
+      mergeWithPrevious = consumedNext;
+      if (consumedNext) i++;
+    }
+    
+    // 检查必需选项并填充可选选项的默认值
+    for (const [index, option] of options.entries()) {
+      if (!(option.name! in values)) {
+        if (!option.optional) {
+          // 选项位于令牌数组末尾
+          BasicMatcher.recordMismatch(option, positional.length + index, undefined, [], context);
+          return null;
         }
-        // 可选字面量（如参数间的单空格）：直接跳过，不需要任何处理
-        patternIndex++;
-        // segmentIndex 只在 segment 存在且匹配时才递增（已在上面处理）
-      } else if (patternToken.type === 'rest_parameter') {
-        // rest 参数无论是否有剩余 segment 都返回空数组
-        if (patternToken.name) {
-          result.addParam(patternToken.name, []);
+        const value = BasicMatcher.getDefaultValue(option, context);
+        if (value === undefined) {
+          return null;
         }
-        patternIndex++;
-      } else {
-        // 必需参数或必需字面量不匹配，返回 null 表示匹配失败
-        return null;
+        values[option.name!] = value;
       }
     }
     
-    // 处理剩余的消息段（未被模式匹配的部分）
-    while (segmentIndex < segmentsCopy.length) {
-      result.addRemaining(segmentsCopy[segmentIndex]);
-      segmentIndex++;
+    return { segments: output, values };
+  }
+
+  /**
+   * 解析选项值
+   * 
+   * 复用参数匹配逻辑进行类型转换（number、integer、at、内联正则等），
+   * 并检查参数约束。选项值必须被完整匹配。
+   * 
+   * @param option - 命名选项令牌
+   * @param segment - 选项值所在的消息段
+   * @param context - 匹配上下文
+   * @returns 转换后的值，无效时返回 undefined
+   */
+  private static parseOptionValue(option: PatternToken, segment: MessageSegment, context: MatchContext): any {
+    let value: any;
+    if (option.dataType === 'text' && cachedTypeCheck(segment, 'text')) {
+      value = segment.data.text;
+    } else {
+      const response = BasicMatcher.matchParameter(option, segment, [segment], 0, context);
+      if (!response.success || response.newSegmentIndex !== undefined) {
+        return undefined;
+      }
+      value = response.param!.value;
     }
     
-    // 返回有效的匹配结果，否则返回 null
-    return result.isValid() ? result : null;
+    const violation = option.constraints ? checkConstraints(option.name!, value, option.constraints) : null;
+    if (violation) {
+      context.failures?.push({ reason: 'constraint_violation', token: option, value, message: violation });
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * 回溯匹配
+   * 
+   * 从指定的令牌和消息段位置开始，依次尝试当前令牌的每个候选分支，
+   * 并递归匹配后续令牌。后续令牌失败时回退到下一个候选分支。
+   * 
+   * @param pattern - 模式令牌数组
+   * @param patternIndex - 当前令牌索引
+   * @param segments - 当前分支的消息段数组
+   * @param segmentIndex - 当前消息段索引
+   * @param path - 已匹配令牌的响应栈（成功时保留完整路径）
+   * @param context - 匹配上下文
+   * @param complete - 是否匹配整个模式（而不是可选组内部），完整匹配模式下在模式结尾检查剩余消息段
+   * @returns 匹配结束时的消息段状态，所有分支都失败时返回 null
+   */
+  private static matchFrom(pattern: PatternToken[], patternIndex: number, segments: MessageSegment[], segmentIndex: number, path: MatchResponse[], context: MatchContext, complete = false): MatchState | null {
+    const first = BasicMatcher.matchPaths(pattern, patternIndex, segments, segmentIndex, path, context, complete).next();
+    return first.done ? null : first.value;
+  }
+
+  /**
+   * 按回溯顺序产出所有完整的匹配路径
+   * 
+   * 每产出一个结束状态时，path 中保存着该路径上每个令牌的响应，
+   * 继续迭代会回退并尝试下一个候选分支。
+   * 
+   * 剩余的输入总是原消息段数组的末尾部分（第一个文本段可能只剩后半部分），
+   * 因此同一令牌位置上剩余输入相同的状态结果相同。没有产出任何路径的状态会被记录下来，
+   * 再次遇到时直接跳过，使多个 text 参数的回溯不会随输入长度急剧变慢。
+   * 
+   * @param pattern - 模式令牌数组
+   * @param patternIndex - 当前令牌索引
+   * @param segments - 当前分支的消息段数组
+   * @param segmentIndex - 当前消息段索引
+   * @param path - 已匹配令牌的响应栈
+   * @param context - 匹配上下文
+   * @param complete - 是否匹配整个模式（而不是可选组内部）
+   * @param afterSplit - 上一个令牌是否为回溯中缩短的 text 前缀
+   */
+  private static *matchPaths(pattern: PatternToken[], patternIndex: number, segments: MessageSegment[], segmentIndex: number, path: MatchResponse[], context: MatchContext, complete: boolean, afterSplit = false): Generator<MatchState> {
+    if (patternIndex >= pattern.length) {
+      // 完整匹配：有剩余消息段时回溯，尝试消耗更多消息段的分支
+      if (!(complete && context.options.fullMatch && BasicMatcher.hasUnmatchedRemaining(segments, segmentIndex, context))) {
+        yield { segments, segmentIndex };
+      }
+      return;
+    }
+    
+    const failedStates = context.failedStates ??= new Map();
+    const failed = failedStates.get(pattern) ?? new Set<string>();
+    failedStates.set(pattern, failed);
+    const head = segments[segmentIndex];
+    const headText = head && cachedTypeCheck(head, 'text') ? head.data?.text : undefined;
+    const key = `${patternIndex}:${afterSplit ? 1 : 0}:${segments.length - segmentIndex}:${typeof headText === 'string' ? JSON.stringify(headText) : '-'}`;
+    if (failed.has(key)) {
+      return;
+    }
+    
+    let expanded = false;
+    let found = false;
+    for (const branch of BasicMatcher.expandToken(pattern[patternIndex], segments, segmentIndex, context, afterSplit)) {
+      expanded = true;
+      path.push(branch.response);
+      for (const state of BasicMatcher.matchPaths(pattern, patternIndex + 1, branch.segments, branch.response.newSegmentIndex!, path, context, complete, branch.split)) {
+        found = true;
+        yield state;
+      }
+      path.pop();
+    }
+    
+    if (!found) {
+      failed.add(key);
+    }
+    
+    // 令牌在当前位置没有任何匹配方式，记录失败位置（可选组内部的令牌不记录）
+    if (!expanded && complete) {
+      BasicMatcher.recordMismatch(pattern[patternIndex], patternIndex, segments[segmentIndex], path, context);
+    }
+  }
+
+  /**
+   * 记录令牌与输入不符的失败
+   * 
+   * 回溯过程中会多次失败，只保留进展最远（令牌位置最靠后）的一次。
+   * 
+   * @param token - 失败的令牌
+   * @param tokenIndex - 令牌在模式中的位置
+   * @param segment - 失败位置的消息段，消息已经结束时为 undefined
+   * @param path - 失败之前已匹配令牌的响应
+   * @param context - 匹配上下文
+   */
+  private static recordMismatch(token: PatternToken, tokenIndex: number, segment: MessageSegment | undefined, path: MatchResponse[], context: MatchContext): void {
+    const failures = context.failures;
+    if (!failures) {
+      return;
+    }
+    
+    const index = failures.findIndex(failure => failure.reason === 'unexpected_input' || failure.reason === 'missing_input');
+    if (index !== -1 && (failures[index].tokenIndex ?? -1) >= tokenIndex) {
+      return;
+    }
+    
+    const progress = new MatchResult();
+    path.forEach(response => BasicMatcher.collectResponse(progress, response));
+    const expected = describeExpected(token);
+    const found = describeFound(segment);
+    const failure: MatchFailure = {
+      reason: segment ? 'unexpected_input' : 'missing_input',
+      token,
+      value: segment,
+      message: `Expected ${expected}, got ${found}`,
+      tokenIndex,
+      expected,
+      found,
+      matched: progress.matched
+    };
+    
+    if (index === -1) {
+      failures.push(failure);
+    } else {
+      failures[index] = failure;
+    }
+  }
+
+  /**
+   * 检查完整匹配模式下是否有未匹配的剩余消息段
+   * 
+   * 剩余的空白文本段默认不算作未匹配（allowTrailingWhitespace 为 false 时除外）。
+   * 第一次发现未匹配的剩余消息段时记录到 failures 中。
+   * 
+   * @param segments - 当前分支的消息段数组
+   * @param segmentIndex - 模式结尾处的消息段索引
+   * @param context - 匹配上下文
+   * @returns 是否有未匹配的剩余消息段
+   */
+  private static hasUnmatchedRemaining(segments: MessageSegment[], segmentIndex: number, context: MatchContext): boolean {
+    const remaining = segments.slice(segmentIndex);
+    const allowWhitespace = context.options.allowTrailingWhitespace !== false;
+    const unmatched = remaining.some(segment => {
+      const text = cachedTypeCheck(segment, 'text') ? segment.data?.text : undefined;
+      return !(typeof text === 'string' && (text === '' || (allowWhitespace && !text.trim())));
+    });
+    
+    if (unmatched && context.failures && !context.failures.some(failure => failure.reason === 'unmatched_remaining')) {
+      const description = remaining
+        .map(segment => cachedTypeCheck(segment, 'text') ? segment.data?.text : `[${getSegmentType(segment)}]`)
+        .join('');
+      context.failures.push({
+        reason: 'unmatched_remaining',
+        value: remaining,
+        message: `Unexpected trailing input: ${JSON.stringify(description)}`
+      });
+    }
+    return unmatched;
+  }
+
+  /**
+   * 展开令牌的候选分支
+   * 
+   * 按优先级依次产出当前令牌所有可行的匹配方式：
+   * - text 参数：引号文本、整个文本段，然后是逐渐变短的前缀
+   * - 多选字面量：每个可以匹配的候选字面量
+   * - 其他令牌：唯一的匹配结果
+   * - 可选参数：最后产出跳过该参数（使用默认值）的分支
+   * - 可选组：组内整体匹配的分支，然后是跳过整个组的分支
+   * - 可选字面量：仅在无法匹配时跳过
+   * 
+   * 参数值不满足约束的分支会被丢弃，并记录到 failures 中。
+   * 可选参数的所有取值都不满足约束时（如 `roll [n:integer(1..10)=1]` 遇到 `roll 50`），
+   * 不再产出使用默认值的跳过分支，使匹配失败而不是静默忽略输入的值。
+   * 每个分支使用独立的消息段数组副本，互不影响。
+   * 
+   * 紧跟在缩短的 text 前缀之后的参数分隔空格必须匹配实际的空白，不能跳过，
+   * 避免 `say <msg:text> <n:number>` 在单词中间切开 `hello 42`。
+   * 
+   * @param token - 模式令牌
+   * @param segments - 当前分支的消息段数组
+   * @param segmentIndex - 当前消息段索引
+   * @param context - 匹配上下文
+   * @param afterSplit - 上一个令牌是否为回溯中缩短的 text 前缀
+   */
+  private static *expandToken(token: PatternToken, segments: MessageSegment[], segmentIndex: number, context: MatchContext, afterSplit = false): Generator<MatchBranch> {
+    if (token.quantifier) {
+      yield* BasicMatcher.matchRepeated(token, segments, segmentIndex, context);
+      return;
+    }
+    
+    const segment = segmentIndex < segments.length ? segments[segmentIndex] : undefined;
+    const separatorRequired = afterSplit && isSeparator(token);
+    let matched = false;
+    let violated = false;
+    
+    if (segment) {
+      for (const branch of BasicMatcher.matchBranches(token, segment, segments, segmentIndex, context)) {
+        if (separatorRequired && !branch.response.matched?.length) {
+          continue;
+        }
+        const param = branch.response.param;
+        const violation = param && token.constraints ? checkConstraints(param.name, param.value, token.constraints) : null;
+        if (param && violation) {
+          context.failures?.push({ reason: 'constraint_violation', token, value: param.value, message: violation });
+          violated = true;
+          continue;
+        }
+        matched = true;
+        yield branch;
+      }
+    }
+    
+    // 可选字面量（如参数间的单空格）匹配成功后不再回退为跳过，避免空格被后续参数吞掉
+    if (token.optional && !separatorRequired && !(violated && !matched) && (token.name || token.type === 'group' || !matched)) {
+      // 可选参数和可选组使用默认值；可选字面量直接跳过
+      const skip = BasicMatcher.getSkipResponse(token, segmentIndex, context);
+      if (skip.success) {
+        yield { response: skip, segments };
+      }
+    } else if (token.type === 'rest_parameter' && !segment) {
+      // rest 参数无论是否有剩余 segment 都返回空数组
+      yield { response: BasicMatcher.getSkipResponse(token, segmentIndex, context), segments };
+    }
+  }
+
+  /**
+   * 匹配带重复量词的令牌
+   * 
+   * 贪婪地重复匹配单个项（重复项之间可以有空白），
+   * 然后从最多次数到最少次数依次产出分支，使后续令牌失败时可以回退。
+   * 命名参数的值为每一项的值组成的数组。
+   * 
+   * @param token - 带重复量词的令牌
+   * @param segments - 当前分支的消息段数组
+   * @param segmentIndex - 当前消息段索引
+   * @param context - 匹配上下文
+   */
+  private static *matchRepeated(token: PatternToken, segments: MessageSegment[], segmentIndex: number, context: MatchContext): Generator<MatchBranch> {
+    const { min, max = Infinity } = token.quantifier!;
+    const item = new PatternToken(token.type, { ...token, quantifier: undefined });
+    const states: MatchBranch[] = [{ response: { success: true, matched: [], newSegmentIndex: segmentIndex }, segments }];
+    const values: any[] = [];
+    
+    while (states.length - 1 < max) {
+      const previous = states[states.length - 1];
+      let working = previous.segments;
+      let index = previous.response.newSegmentIndex!;
+      const separator: MessageSegment[] = [];
+      
+      // 第二项起允许以空白分隔
+      const text = states.length > 1 && working[index] && cachedTypeCheck(working[index], 'text') ? working[index].data?.text : undefined;
+      const whitespace = typeof text === 'string' ? /^\s+/.exec(text) : null;
+      if (text && whitespace) {
+        separator.push({ type: 'text', data: { text: whitespace[0] } });
+        working = working.slice();
+        if (whitespace[0].length < text.length) {
+          working[index] = { type: 'text', data: { text: text.substring(whitespace[0].length) } };
+        } else {
+          index++;
+        }
+      }
+      
+      const next = BasicMatcher.expandToken(item, working, index, context).next();
+      if (next.done || next.value.response.newSegmentIndex! <= index) {
+        break;
+      }
+      
+      const branch = next.value;
+      values.push(branch.response.param?.value);
+      states.push({
+        response: {
+          success: true,
+          matched: [...previous.response.matched!, ...separator, ...(branch.response.matched || [])],
+          newSegmentIndex: branch.response.newSegmentIndex
+        },
+        segments: branch.segments
+      });
+    }
+    
+    for (let count = states.length - 1; count >= min; count--) {
+      yield {
+        response: {
+          ...states[count].response,
+          param: token.name ? { name: token.name, value: values.slice(0, count) } : undefined
+        },
+        segments: states[count].segments
+      };
+    }
+  }
+
+  /**
+   * 获取跳过令牌时的匹配响应
+   * 
+   * - 命名令牌：使用默认值（rest 参数和带量词的参数为空数组）
+   * - 可选组：组内所有命名令牌都使用默认值
+   * - 其他令牌：不产生参数
+   * 
+   * 运行时默认值无效时（见 getDefaultValue）不能跳过，返回失败的响应。
+   * 
+   * @param token - 被跳过的令牌
+   * @param segmentIndex - 当前消息段索引
+   * @param context - 匹配上下文
+   * @returns 不消耗消息段的匹配响应
+   */
+  private static getSkipResponse(token: PatternToken, segmentIndex: number, context: MatchContext): MatchResponse {
+    const response: MatchResponse = { success: true, newSegmentIndex: segmentIndex };
+    if (token.type === 'group') {
+      response.children = (token.children || []).map(child => BasicMatcher.getSkipResponse(child, segmentIndex, context));
+      response.success = response.children.every(child => child.success);
+    } else if ((token.type === 'rest_parameter' || token.quantifier) && token.name) {
+      response.param = { name: token.name, value: [] };
+    } else if (token.name) {
+      const value = BasicMatcher.getDefaultValue(token, context);
+      response.param = { name: token.name, value };
+      response.success = value !== undefined;
+    }
+    return response;
+  }
+
+  /**
+   * 将令牌的匹配响应收集到匹配结果中
+   * 
+   * 可选组的响应包含子令牌的响应，递归收集。
+   * 
+   * @param result - 匹配结果
+   * @param response - 令牌的匹配响应
+   */
+  private static collectResponse(result: MatchResult, response: MatchResponse): void {
+    if (response.matched) {
+      result.matched.push(...response.matched);
+    }
+    if (response.param) {
+      result.addParam(response.param.name, response.param.value);
+    }
+    for (const child of response.children || []) {
+      BasicMatcher.collectResponse(result, child);
+    }
+  }
+
+  /**
+   * 产出令牌在当前消息段上的匹配分支
+   * 
+   * text 参数、多选字面量和文本通配符可能产生多个分支，其他令牌最多产生一个分支。
+   * 
+   * @param token - 模式令牌
+   * @param segment - 当前消息段
+   * @param segments - 当前分支的消息段数组
+   * @param segmentIndex - 当前消息段索引
+   * @param context - 匹配上下文
+   */
+  private static *matchBranches(token: PatternToken, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number, context: MatchContext): Generator<MatchBranch> {
+    if (token.type === 'group') {
+      yield* BasicMatcher.matchGroup(token, segments, segmentIndex, context);
+      return;
+    }
+    if (token.type === 'parameter' && token.dataType === 'text') {
+      yield* BasicMatcher.matchTextParameter(token, segment, segments, segmentIndex, context);
+      return;
+    }
+    if (token.type === 'alternation') {
+      yield* BasicMatcher.matchAlternation(token, segment, segments, segmentIndex, context);
+      return;
+    }
+    if (token.type === 'typed_literal' && token.regex && token.segmentType === 'text') {
+      yield* BasicMatcher.matchTextGlob(token, segment, segments, segmentIndex);
+      return;
+    }
+    
+    const working = segments.slice();
+    const response = BasicMatcher.matchToken(token, segment, working, segmentIndex, context);
+    if (response.success) {
+      yield {
+        response: { ...response, newSegmentIndex: response.newSegmentIndex ?? segmentIndex + 1 },
+        segments: working
+      };
+    }
+  }
+
+  /**
+   * 匹配可选组令牌
+   * 
+   * 组内令牌作为一个整体匹配：使用回溯匹配器找到组内的第一种完整匹配，
+   * 之后不再回退到组内的其他匹配方式。组被跳过的分支由 expandToken 产出。
+   * 
+   * @param token - 可选组令牌
+   * @param segments - 当前分支的消息段数组
+   * @param segmentIndex - 当前消息段索引
+   * @param context - 匹配上下文
+   */
+  private static *matchGroup(token: PatternToken, segments: MessageSegment[], segmentIndex: number, context: MatchContext): Generator<MatchBranch> {
+    const path: MatchResponse[] = [];
+    const end = BasicMatcher.matchFrom(token.children || [], 0, segments.slice(), segmentIndex, path, context);
+    if (end) {
+      yield {
+        response: { success: true, children: path, newSegmentIndex: end.segmentIndex },
+        segments: end.segments
+      };
+    }
+  }
+
+  /**
+   * 获取可选参数的默认值
+   * 
+   * 运行时默认值（如 `$sender`）从匹配上下文或注册的提供者中获取，
+   * 解析出的值与模式中写出的默认值一样需要符合参数的类型和约束，不符时记录 invalid_default 失败。
+   * 两者都没有该名称时，text 和 word 参数使用原始写法（如 `'$USD'`），其他类型视为无效的默认值。
+   * 
+   * @param token - 可选参数令牌
+   * @param context - 匹配上下文
+   * @returns 默认值，未设置或提供者返回 undefined 时 text 类型为空字符串，其他类型为 null；
+   *   运行时默认值无效时返回 undefined
+   */
+  private static getDefaultValue(token: PatternToken, context: MatchContext): any {
+    const provider = token.defaultProvider;
+    if (provider) {
+      const known = (context.defaults && Object.prototype.hasOwnProperty.call(context.defaults, provider)) || DefaultValueRegistry.getProvider(provider);
+      if (!known && (token.dataType === 'text' || token.dataType === 'word')) {
+        return `$${provider}`;
+      }
+      if (!known) {
+        context.failures?.push({ reason: 'invalid_default', token, value: `$${provider}`, message: `Unknown default value provider '$${provider}' for '${token.name}'` });
+        return undefined;
+      }
+      const value = DefaultValueRegistry.resolve(provider, context.defaults);
+      const problem = checkDefaultValue(token, value);
+      if (problem) {
+        context.failures?.push({ reason: 'invalid_default', token, value, message: problem });
+        return undefined;
+      }
+      if (value !== undefined) {
+        return value;
+      }
+    } else if (token.defaultValue !== undefined) {
+      return token.defaultValue;
+    }
+    return token.dataType === 'text' ? '' : null;
   }
 
   /**
@@ -292,19 +1265,19 @@ export class BasicMatcher {
    * @param segment - 消息段
    * @param segments - 完整的消息段数组（用于修改）
    * @param segmentIndex - 当前消息段索引
-   * @param typedLiteralFieldMap - 自定义字段映射
+   * @param context - 匹配上下文
    * @returns 匹配响应
    */
-  private static matchToken(token: PatternToken, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number, typedLiteralFieldMap?: FieldMappingConfig): MatchResponse {
+  private static matchToken(token: PatternToken, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number, context: MatchContext): MatchResponse {
     switch (token.type) {
       case 'literal':
-        return BasicMatcher.matchLiteral(token, segment, segments, segmentIndex);
+        return BasicMatcher.matchLiteral(token, segment, segments, segmentIndex, context);
       case 'typed_literal':
-        return BasicMatcher.matchTypedLiteral(token, segment, segments, segmentIndex, typedLiteralFieldMap);
+        return BasicMatcher.matchTypedLiteral(token, segment, segments, segmentIndex, context);
       case 'parameter':
-        return BasicMatcher.matchParameter(token, segment, segments, segmentIndex, typedLiteralFieldMap);
+        return BasicMatcher.matchParameter(token, segment, segments, segmentIndex, context);
       case 'rest_parameter':
-        return BasicMatcher.matchRestParameter(token, segments, segmentIndex, typedLiteralFieldMap);
+        return BasicMatcher.matchRestParameter(token, segments, segmentIndex, context);
       default:
         // 未知的令牌类型，匹配失败
         return { success: false };
@@ -321,23 +1294,42 @@ export class BasicMatcher {
    * @param segment - 消息段
    * @param segments - 消息段数组（用于插入剩余文本）
    * @param segmentIndex - 当前索引
+   * @param context - 匹配上下文
    * @returns 匹配响应
    */
-  private static matchLiteral(token: PatternToken, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number): MatchResponse {
+  private static matchLiteral(token: PatternToken, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number, context: MatchContext): MatchResponse {
+    return BasicMatcher.matchLiteralText(token.value!, segment, segments, segmentIndex, context);
+  }
+
+  /**
+   * 匹配字面量文本
+   * 
+   * 匹配结果中记录输入中的原始写法（忽略大小写时可能与字面量不同）。
+   * 
+   * @param tokenValue - 期望的字面量文本
+   * @param segment - 消息段
+   * @param segments - 消息段数组（用于插入剩余文本）
+   * @param segmentIndex - 当前索引
+   * @param context - 匹配上下文
+   * @returns 匹配响应
+   */
+  private static matchLiteralText(tokenValue: string, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number, context: MatchContext): MatchResponse {
     // 快速路径：类型检查
-    if (segment.type !== 'text') return { success: false };
+    if (!cachedTypeCheck(segment, 'text')) return { success: false };
     
     const textData = segment.data?.text;
     if (typeof textData !== 'string') return { success: false };
     
-    const tokenValue = token.value!;
-    if (!textData.startsWith(tokenValue)) return { success: false };
+    const matchedText = matchLiteralPrefix(textData, tokenValue, context.options);
+    if (matchedText === null) return { success: false };
     
-    const afterText = textData.substring(tokenValue.length);
+    const afterText = textData.substring(matchedText.length);
     const matched: MessageSegment[] = [];
     
-    // 创建匹配的消息段
-    matched.push({ type: 'text', data: { text: tokenValue } });
+    // 创建匹配的消息段（忽略空白时字面量可能匹配空字符串）
+    if (matchedText) {
+      matched.push({ type: 'text', data: { text: matchedText } });
+    }
     
     // 将剩余文本插入到下一个位置，供后续匹配使用
     if (afterText) {
@@ -354,26 +1346,117 @@ export class BasicMatcher {
     };
   }
 
+  /**
+   * 匹配多选字面量令牌
+   * 
+   * 按长度从长到短依次尝试每个候选字面量，避免较短的候选（如 `add`）
+   * 抢先匹配较长候选（如 `addall`）的前缀。匹配到的候选值记录为参数，
+   * 忽略大小写时参数值为模式中的规范写法。
+   * 
+   * @param token - 多选字面量令牌
+   * @param segment - 消息段
+   * @param segments - 当前分支的消息段数组
+   * @param segmentIndex - 当前消息段索引
+   * @param context - 匹配上下文
+   */
+  private static *matchAlternation(token: PatternToken, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number, context: MatchContext): Generator<MatchBranch> {
+    const alternatives = [...(token.alternatives || [])].sort((a, b) => b.length - a.length);
+    
+    for (const alternative of alternatives) {
+      const working = segments.slice();
+      const response = BasicMatcher.matchLiteralText(alternative, segment, working, segmentIndex, context);
+      if (response.success) {
+        yield {
+          response: { ...response, param: { name: token.name!, value: alternative } },
+          segments: working
+        };
+      }
+    }
+  }
+
+  /**
+   * 产出文本通配符（如 `{text:hel*}`）的匹配分支
+   * 
+   * 先用通配符匹配整个文本段，再像 text 参数一样依次尝试更短的前缀，
+   * 剩余文本插入回消息段数组，使通配符之后还可以跟字面量或参数。
+   * 
+   * @param token - 值为通配符的 text 类型化字面量令牌
+   * @param segment - 消息段
+   * @param segments - 当前分支的消息段数组
+   * @param segmentIndex - 当前消息段索引
+   */
+  private static *matchTextGlob(token: PatternToken, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number): Generator<MatchBranch> {
+    const fullText = segment.data?.text;
+    const glob = token.regex;
+    if (!glob || !cachedTypeCheck(segment, 'text') || typeof fullText !== 'string') {
+      return;
+    }
+    
+    if (glob.test(fullText)) {
+      yield { response: { success: true, matched: [segment], newSegmentIndex: segmentIndex + 1 }, segments };
+    }
+    
+    for (let length = fullText.length - 1; length > 0; length--) {
+      const capturedText = fullText.substring(0, length);
+      if (!glob.test(capturedText)) {
+        continue;
+      }
+      const working = segments.slice();
+      optimizedArrayInsert(working, segmentIndex + 1, {
+        type: 'text',
+        data: { text: fullText.substring(length) }
+      });
+      yield {
+        response: {
+          success: true,
+          matched: [{ type: 'text', data: { text: capturedText } }],
+          newSegmentIndex: segmentIndex + 1
+        },
+        segments: working,
+        split: true
+      };
+    }
+  }
+
   /**
    * 匹配类型化字面量令牌
    * 
    * 检查消息段类型和字段值是否匹配指定的类型化字面量。
    * 支持多字段匹配和文本包含匹配。
+   * 值为通配符（如 `{at:*}`、`{image:*.gif}`）时，字段值必须整体匹配通配符
+   * （text 消息段的前缀匹配由 matchTextGlob 处理）；
+   * 单独的 `*` 只要求消息段类型，不需要 typedLiteralFieldMap 中的映射。
+   * 多字段约束（如 `{image file=a.png sub_type=1}`）直接检查 `segment.data` 中的各个字段，
+   * 不使用 typedLiteralFieldMap。
    * 
    * @param token - 类型化字面量令牌
    * @param segment - 消息段
    * @param segments - 消息段数组（用于插入分割后的文本）
    * @param segmentIndex - 当前索引
-   * @param typedLiteralFieldMap - 自定义字段映射
+   * @param context - 匹配上下文
    * @returns 匹配响应
    */
-  private static matchTypedLiteral(token: PatternToken, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number, typedLiteralFieldMap?: FieldMappingConfig): MatchResponse {
+  private static matchTypedLiteral(token: PatternToken, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number, context: MatchContext): MatchResponse {
     // 快速路径：类型检查
     if (!cachedTypeCheck(segment, token.segmentType!)) {
       return { success: false };
     }
-    const type=typeof segment.type === 'string' ? segment.type : segment.type.name;
-    const field = typedLiteralFieldMap?.[type];
+    
+    if (token.fields) {
+      const matches = token.fields.every(field => {
+        const fieldValue = segment.data?.[field.key];
+        return fieldValue !== undefined && fieldValue !== null && field.regex.test(String(fieldValue));
+      });
+      return matches ? { success: true, matched: [segment], newSegmentIndex: segmentIndex + 1 } : { success: false };
+    }
+    
+    // 单独的 `*` 匹配任意字段值，包括没有字段映射的类型
+    if (token.regex && token.value === '*') {
+      return { success: true, matched: [segment], newSegmentIndex: segmentIndex + 1 };
+    }
+    
+    const type = getSegmentType(segment);
+    const field = context.typedLiteralFieldMap?.[type];
     if (!field || !segment.data || token.value === undefined) {
       return { success: false };
     }
@@ -382,6 +1465,13 @@ export class BasicMatcher {
     const value = extractFieldValue(segment, field);
     if (value === null) return { success: false };
 
+    // 通配符匹配，不做包含匹配
+    if (token.regex) {
+      return token.regex.test(String(value))
+        ? { success: true, matched: [segment], newSegmentIndex: segmentIndex + 1 }
+        : { success: false };
+    }
+
     // 精确匹配
     if (String(value) === token.value) {
       return {
@@ -392,7 +1482,7 @@ export class BasicMatcher {
     }
 
     // text 类型特殊处理，允许包含匹配
-    if (segment.type === 'text' && typeof value === 'string' && value.includes(token.value)) {
+    if (cachedTypeCheck(segment, 'text') && typeof value === 'string' && value.includes(token.value)) {
       const { beforeText, afterText } = optimizedSplitText(value, token.value);
       const matched: MessageSegment[] = [];
       if (beforeText) {
@@ -455,6 +1545,137 @@ export class BasicMatcher {
     return null;
   }
 
+  /**
+   * 匹配 text 类型参数
+   * 
+   * 按优先级产出候选分支：
+   * 1. 引号包裹的文本（如 `"hello world"`）
+   * 2. 整个文本段（贪婪匹配）
+   * 3. 从长到短的文本前缀，剩余文本插入回消息段数组
+   * 
+   * 后续令牌匹配失败时，回溯匹配器会依次尝试更短的前缀，
+   * 使 `send <msg:text> to <who:at>` 这样的模式可以在 ` to` 之前停止。
+   * 
+   * 设置了 textMode 时：
+   * - `lazy`（`text?`）：引号文本之后从短到长尝试前缀，最后是整个文本段
+   * - `until`（`text~`）：只产出下一个字面量之前的文本（按 caseInsensitive 和空白策略查找），文本段中没有该字面量时为整个文本段
+   * - `line`（`text$`）：只产出第一个换行符之前的文本（不含 CRLF 中的 `\r`），没有换行符时为整个文本段
+   * 
+   * @param token - text 参数令牌
+   * @param segment - 消息段
+   * @param segments - 当前分支的消息段数组
+   * @param segmentIndex - 当前消息段索引
+   * @param context - 匹配上下文
+   */
+  private static *matchTextParameter(token: PatternToken, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number, context: MatchContext): Generator<MatchBranch> {
+    // 检查 text 字段是否存在
+    if (!cachedTypeCheck(segment, 'text') || !segment.data || !('text' in segment.data)) {
+      return;
+    }
+    
+    const fullText = segment.data.text;
+    
+    // 尝试解析引号包裹的文本
+    const parsed = BasicMatcher.parseQuotedText(fullText);
+    if (parsed) {
+      const working = segments.slice();
+      // 如果有剩余文本，插入回 segments
+      if (parsed.remainingText) {
+        optimizedArrayInsert(working, segmentIndex + 1, {
+          type: 'text',
+          data: { text: parsed.remainingText }
+        });
+      }
+      yield {
+        response: {
+          success: true,
+          matched: [{ type: 'text', data: { text: parsed.quotedText } }],
+          param: { name: token.name!, value: parsed.quotedText },
+          newSegmentIndex: segmentIndex + 1
+        },
+        segments: working
+      };
+    }
+    
+    const wholeSegment: MatchBranch = {
+      response: {
+        success: true,
+        matched: [segment],
+        param: { name: token.name!, value: fullText || '' },
+        newSegmentIndex: segmentIndex + 1
+      },
+      segments
+    };
+    
+    if (typeof fullText !== 'string') {
+      yield wholeSegment;
+      return;
+    }
+    
+    // text~ 和 text$：在分隔符或换行符之前停止，不回溯
+    if (token.textMode === 'until' || token.textMode === 'line') {
+      const end = token.textMode === 'line' ? fullText.indexOf('\n') : token.delimiter ? findLiteral(fullText, token.delimiter, context.options) : -1;
+      if (end === -1) {
+        yield wholeSegment;
+      } else if (end > 0) {
+        const branch = BasicMatcher.getTextPrefixBranch(token, fullText, end, segments, segmentIndex);
+        const param = branch.response.param;
+        // CRLF 换行：\r 留在匹配的文本中，但不属于参数值
+        if (param && token.textMode === 'line' && fullText[end - 1] === '\r') {
+          param.value = fullText.substring(0, end - 1);
+        }
+        yield branch;
+      }
+      return;
+    }
+    
+    // text?：从短到长依次尝试前缀，最后是整个文本段
+    if (token.textMode === 'lazy') {
+      for (let length = 1; length < fullText.length; length++) {
+        yield BasicMatcher.getTextPrefixBranch(token, fullText, length, segments, segmentIndex, true);
+      }
+      yield wholeSegment;
+      return;
+    }
+    
+    // 贪婪匹配整个文本段
+    yield wholeSegment;
+    
+    // 回溯：依次尝试更短的前缀
+    for (let length = fullText.length - 1; length > 0; length--) {
+      yield BasicMatcher.getTextPrefixBranch(token, fullText, length, segments, segmentIndex, true);
+    }
+  }
+
+  /**
+   * 生成 text 参数捕获文本前缀的分支
+   * 
+   * @param token - text 参数令牌
+   * @param fullText - 当前文本段的文本
+   * @param length - 捕获的前缀长度，剩余文本插入回消息段数组
+   * @param segments - 当前分支的消息段数组
+   * @param segmentIndex - 当前消息段索引
+   * @param split - 是否为回溯中缩短的前缀（之后的分隔空格不能跳过）
+   */
+  private static getTextPrefixBranch(token: PatternToken, fullText: string, length: number, segments: MessageSegment[], segmentIndex: number, split = false): MatchBranch {
+    const working = segments.slice();
+    const capturedText = fullText.substring(0, length);
+    optimizedArrayInsert(working, segmentIndex + 1, {
+      type: 'text',
+      data: { text: fullText.substring(length) }
+    });
+    return {
+      response: {
+        success: true,
+        matched: [{ type: 'text', data: { text: capturedText } }],
+        param: { name: token.name!, value: capturedText },
+        newSegmentIndex: segmentIndex + 1
+      },
+      segments: working,
+      split
+    };
+  }
+
   /**
    * 匹配单个参数令牌和消息段
    * 
@@ -466,103 +1687,69 @@ export class BasicMatcher {
    * @param segment - 消息段
    * @param segments - 完整的消息段数组（用于插入剩余文本）
    * @param segmentIndex - 当前消息段索引
-   * @param typedLiteralFieldMap - 自定义字段映射
+   * @param context - 匹配上下文
    * @returns 匹配响应
    */
-  private static matchParameter(token: PatternToken, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number, typedLiteralFieldMap?: FieldMappingConfig): MatchResponse {
-    // 对于 text 类型的特殊处理
-    if (token.dataType === 'text') {
-      if (segment && segment.type === 'text') {
-        // 检查 text 字段是否存在
-        if (!('text' in segment.data)) {
-          return { success: false };
-        }
-        
-        const fullText = segment.data.text;
+  private static matchParameter(token: PatternToken, segment: MessageSegment, segments: MessageSegment[], segmentIndex: number, context: MatchContext): MatchResponse {
+    // 使用 TypeMatcher 处理特殊类型规则（number, integer, float, boolean 等）
+    // 参数专属的匹配器（如内联正则）优先于全局注册的匹配器
+    const matcher = token.matcher
+      || (TypeMatcherRegistry.hasSpecialMatcher(token.dataType!) ? TypeMatcherRegistry.getMatcher(token.dataType!) : null);
+    if (matcher && segment && cachedTypeCheck(segment, 'text')) {
+      const fullText = segment.data.text;
+      const result = matcher.match(fullText);
+      
+      if (result.success) {
+        // 整个文本段匹配成功
+        return {
+          success: true,
+          matched: [segment],
+          param: { name: token.name!, value: result.value }
+        };
+      }
+      
+      if (typeof fullText === 'string' && fullText.trim()) {
+        let prefixLength = 0;
+        let prefixResult: TypeMatchResult = { success: false };
         
-        // 尝试解析引号包裹的文本
-        const parsed = BasicMatcher.parseQuotedText(fullText);
+        if (matcher.matchPrefix) {
+          // 匹配器自行决定前缀长度（例如正则匹配）
+          prefixResult = matcher.matchPrefix(fullText);
+          prefixLength = prefixResult.length || 0;
+        } else {
+          // 尝试从文本段开头部分提取（例如从 "100 200" 中提取 "100"）
+          // 按空格（宽松的空白策略下为任意空白）分割，尝试匹配第一个 token
+          const spaceIndex = isFlexibleWhitespace(context.options) ? fullText.search(/\s/) : fullText.indexOf(' ');
+          if (spaceIndex > 0) {
+            prefixResult = matcher.match(fullText.substring(0, spaceIndex));
+            prefixLength = spaceIndex;
+          }
+        }
         
-        if (parsed) {
-          // 成功解析引号文本
+        if (prefixResult.success && prefixLength > 0) {
+          const firstPart = fullText.substring(0, prefixLength);
+          const remainingPart = fullText.substring(prefixLength); // 包含空格
+          
+          // 部分匹配成功，需要将剩余部分插入回 segments
           const matched: MessageSegment[] = [
-            { type: 'text', data: { text: parsed.quotedText } }
+            { type: 'text', data: { text: firstPart } }
           ];
           
-          // 如果有剩余文本，插入回 segments
-          if (parsed.remainingText) {
+          // 将剩余文本插入到 segments 数组中
+          if (remainingPart) {
             optimizedArrayInsert(segments, segmentIndex + 1, {
               type: 'text',
-              data: { text: parsed.remainingText }
+              data: { text: remainingPart }
             });
           }
           
           return {
             success: true,
             matched,
-            param: { name: token.name!, value: parsed.quotedText },
+            param: { name: token.name!, value: prefixResult.value },
             newSegmentIndex: segmentIndex + 1
           };
         }
-        
-        // 没有引号，使用原有的贪婪匹配逻辑
-        return {
-          success: true,
-          matched: [segment],
-          param: { name: token.name!, value: fullText || '' }
-        };
-      }
-      return { success: false };
-    }
-
-    // 使用 TypeMatcher 处理特殊类型规则（number, integer, float, boolean 等）
-    if (segment && segment.type === 'text' && TypeMatcherRegistry.hasSpecialMatcher(token.dataType!)) {
-      const matcher = TypeMatcherRegistry.getMatcher(token.dataType!);
-      if (matcher) {
-        const fullText = segment.data.text;
-        const result = matcher.match(fullText);
-        
-        if (result.success) {
-          // 整个文本段匹配成功
-          return {
-            success: true,
-            matched: [segment],
-            param: { name: token.name!, value: result.value }
-          };
-        }
-        
-        // 尝试从文本段开头部分提取（例如从 "100 200" 中提取 "100"）
-        // 按空格分割，尝试匹配第一个 token
-        if (typeof fullText === 'string' && fullText.trim()) {
-          const spaceIndex = fullText.indexOf(' ');
-          if (spaceIndex > 0) {
-            const firstPart = fullText.substring(0, spaceIndex);
-            const remainingPart = fullText.substring(spaceIndex); // 包含空格
-            
-            const partialResult = matcher.match(firstPart);
-            if (partialResult.success) {
-              // 部分匹配成功，需要将剩余部分插入回 segments
-              const matched: MessageSegment[] = [
-                { type: 'text', data: { text: firstPart } }
-              ];
-              
-              // 将剩余文本插入到 segments 数组中
-              if (remainingPart) {
-                optimizedArrayInsert(segments, segmentIndex + 1, {
-                  type: 'text',
-                  data: { text: remainingPart }
-                });
-              }
-              
-              return {
-                success: true,
-                matched,
-                param: { name: token.name!, value: partialResult.value },
-                newSegmentIndex: segmentIndex + 1
-              };
-            }
-          }
-        }
       }
       
       // 对于特殊类型，如果匹配失败但是是可选参数，返回失败让上层处理默认值
@@ -574,12 +1761,12 @@ export class BasicMatcher {
       let value: any = null;
       
       // 使用 typedLiteralFieldMap 来动态提取字段
-      if (typedLiteralFieldMap && token.dataType! in typedLiteralFieldMap) {
-        const fieldMapping = typedLiteralFieldMap[token.dataType!];
+      if (context.typedLiteralFieldMap && token.dataType! in context.typedLiteralFieldMap) {
+        const fieldMapping = context.typedLiteralFieldMap[token.dataType!];
         value = extractFieldValue(segment, fieldMapping);
       } else {
         // 回退到默认字段提取逻辑
-        switch (segment.type) {
+        switch (getSegmentType(segment)) {
           case 'face':
             value = segment.data.id;
             break;
@@ -615,7 +1802,7 @@ export class BasicMatcher {
    * @param segmentIndex - 开始收集的位置
    * @returns 匹配响应
    */
-  private static matchRestParameter(token: PatternToken, segments: MessageSegment[], segmentIndex: number, typedLiteralFieldMap?: FieldMappingConfig): MatchResponse {
+  private static matchRestParameter(token: PatternToken, segments: MessageSegment[], segmentIndex: number, context: MatchContext): MatchResponse {
     const restSegments: MessageSegment[] = [];
     const restValues: any[] = [];
     let currentSegmentIndex = segmentIndex;
@@ -634,8 +1821,9 @@ export class BasicMatcher {
       while (currentSegmentIndex < segments.length) {
         const segment = segments[currentSegmentIndex];
         
-        // 检查是否为空格文本段
-        const isSpace = segment.type === 'text' && segment.data?.text === ' ';
+        // 检查是否为空格文本段（宽松的空白策略下为任意空白）
+        const text = cachedTypeCheck(segment, 'text') ? segment.data?.text : undefined;
+        const isSpace = text === ' ' || (isFlexibleWhitespace(context.options) && typeof text === 'string' && /^\s+$/.test(text));
         
         if (cachedTypeCheck(segment, token.dataType!)) {
           restSegments.push(segment);
@@ -660,8 +1848,8 @@ export class BasicMatcher {
             }
           }
           // 使用 typedLiteralFieldMap 来提取字段
-          else if (typedLiteralFieldMap && token.dataType! in typedLiteralFieldMap) {
-            const fieldMapping = typedLiteralFieldMap[token.dataType!];
+          else if (context.typedLiteralFieldMap && token.dataType! in context.typedLiteralFieldMap) {
+            const fieldMapping = context.typedLiteralFieldMap[token.dataType!];
             value = extractFieldValue(segment, fieldMapping);
             restValues.push(value);
           } else {
@@ -0,0 +1,67 @@
+import { ParameterConstraints } from './types';
+
+/**
+ * 描述数值或长度范围
+ * 
+ * @example
+ * ```typescript
+ * describeRange(1, 100, false, false); // 'between 1 and 100'
+ * describeRange(0, undefined, true, false); // 'greater than 0'
+ * ```
+ */
+function describeRange(min: number | undefined, max: number | undefined, exclusiveMin?: boolean, exclusiveMax?: boolean): string {
+  if (min !== undefined && max !== undefined && !exclusiveMin && !exclusiveMax) {
+    return min === max ? `exactly ${min}` : `between ${min} and ${max}`;
+  }
+  
+  const parts: string[] = [];
+  if (min !== undefined) {
+    parts.push(`${exclusiveMin ? 'greater than' : 'at least'} ${min}`);
+  }
+  if (max !== undefined) {
+    parts.push(`${exclusiveMax ? 'less than' : 'at most'} ${max}`);
+  }
+  return parts.join(' and ');
+}
+
+/**
+ * 检查参数值是否满足约束
+ * 
+ * 数值约束（min/max）检查数字值，长度约束（minLength/maxLength）
+ * 按 Unicode 字符计算字符串长度。
+ * 
+ * @param name - 参数名称（用于生成失败信息）
+ * @param value - 参数值
+ * @param constraints - 参数约束
+ * @returns 不满足约束时返回失败信息，满足时返回 null
+ * 
+ * @example
+ * ```typescript
+ * checkConstraints('n', 150, { min: 1, max: 100 });
+ * // 'n must be between 1 and 100'
+ * 
+ * checkConstraints('name', 'a', { minLength: 2, maxLength: 16 });
+ * // 'name length must be between 2 and 16'
+ * ```
+ */
+export function checkConstraints(name: string, value: unknown, constraints: ParameterConstraints): string | null {
+  const { min, max, exclusiveMin, exclusiveMax, minLength, maxLength } = constraints;
+  
+  if (min !== undefined || max !== undefined) {
+    const valid = typeof value === 'number'
+      && (min === undefined || (exclusiveMin ? value > min : value >= min))
+      && (max === undefined || (exclusiveMax ? value < max : value <= max));
+    if (!valid) {
+      return `${name} must be ${describeRange(min, max, exclusiveMin, exclusiveMax)}`;
+    }
+  }
+  
+  if (minLength !== undefined || maxLength !== undefined) {
+    const length = Array.from(String(value ?? '')).length;
+    if ((minLength !== undefined && length < minLength) || (maxLength !== undefined && length > maxLength)) {
+      return `${name} length must be ${describeRange(minLength, maxLength)}`;
+    }
+  }
+  
+  return null;
+}
@@ -0,0 +1,106 @@
+import { DefaultValueContext, DefaultValueProvider, PatternToken } from './types';
+import { checkConstraints } from './constraints';
+
+/**
+ * 默认值需要满足的 JavaScript 类型
+ */
+const DEFAULT_VALUE_CHECKS: Record<string, (value: unknown) => boolean> = {
+  number: value => typeof value === 'number',
+  float: value => typeof value === 'number',
+  integer: value => Number.isInteger(value),
+  boolean: value => typeof value === 'boolean',
+};
+
+/**
+ * 检查默认值是否与参数的类型和约束相符
+ * 
+ * 同时用于模式中写出的默认值（由 lintPattern 检查）和匹配时解析出的运行时默认值。
+ * 
+ * @param token - 参数或选项令牌
+ * @param value - 默认值，undefined 和 null 表示没有值，不做检查
+ * @returns 不相符时返回说明，相符或无法判断时返回 null
+ */
+export function checkDefaultValue(token: PatternToken, value: unknown): string | null {
+  const { name, dataType, matcher, constraints } = token;
+  // 布尔开关（没有类型）的默认值 false 是隐含的，不需要检查
+  if (value === undefined || value === null || !dataType) {
+    return null;
+  }
+  
+  const check = DEFAULT_VALUE_CHECKS[dataType];
+  const valid = check
+    ? check(value)
+    : !matcher || matcher.match(String(value)).success;
+  if (!valid) {
+    return `Default value ${JSON.stringify(value)} of '${name}' is not a valid ${dataType}`;
+  }
+  
+  const violation = constraints ? checkConstraints(name || '', value, constraints) : null;
+  return violation ? `Default value ${JSON.stringify(value)} of '${name}' is out of range: ${violation}` : null;
+}
+
+/**
+ * 默认值提供者注册表
+ * 
+ * 管理 `[name:type=$provider]` 形式的运行时默认值。
+ * 匹配时先从传给 match() 的上下文中查找同名的值，找不到时调用注册的提供者。
+ * 
+ * @example
+ * ```typescript
+ * DefaultValueRegistry.registerProvider('today', () => new Date().toISOString().slice(0, 10));
+ * 
+ * const matcher = new SegmentMatcher('log [date:text=$today] [who:at=$sender]');
+ * matcher.match(segments, { sender: event.userId });
+ * ```
+ */
+export class DefaultValueRegistry {
+  private static readonly providers = new Map<string, DefaultValueProvider>();
+
+  /**
+   * 获取指定名称的默认值提供者
+   * 
+   * @param name - 提供者名称（不含 `$`）
+   * @returns 对应的提供者，如果不存在则返回null
+   */
+  static getProvider(name: string): DefaultValueProvider | null {
+    return this.providers.get(name) || null;
+  }
+
+  /**
+   * 注册默认值提供者
+   * 
+   * @param name - 提供者名称（不含 `$`）
+   * @param provider - 提供者函数，接收匹配上下文
+   */
+  static registerProvider(name: string, provider: DefaultValueProvider): void {
+    this.providers.set(name, provider);
+  }
+
+  /**
+   * 移除默认值提供者
+   * 
+   * @param name - 提供者名称（不含 `$`）
+   * @returns 是否存在并移除了该提供者
+   */
+  static unregisterProvider(name: string): boolean {
+    return this.providers.delete(name);
+  }
+
+  /**
+   * 解析运行时默认值
+   * 
+   * 上下文中的同名值优先于注册的提供者。
+   * 
+   * @param name - 提供者名称（不含 `$`）
+   * @param context - 匹配上下文
+   * @returns 默认值，无法解析时返回 undefined
+   */
+  static resolve(name: string, context: DefaultValueContext = {}): unknown {
+    if (Object.prototype.hasOwnProperty.call(context, name)) {
+      return context[name];
+    }
+
+    const provider = this.providers.get(name);
+    return provider ? provider(context) : undefined;
+  }
+}
@@ -44,6 +44,7 @@ export class MatcherError extends Error {
  *   if (error instanceof PatternParseError) {
  *     console.log('Pattern:', error.details?.pattern);
  *     console.log('Position:', error.details?.position);
+ *     console.log('End:', error.details?.end);
  *   }
  * }
  * ```
@@ -54,10 +55,11 @@ export class PatternParseError extends MatcherError {
    * 
    * @param message - 错误消息
    * @param pattern - 导致错误的模式字符串（可选）
-   * @param position - 错误在模式中的位置（可选）
+   * @param position - 错误在模式中的起始位置（可选）
+   * @param end - 出错元素在模式中的结束位置（可选，不包含）
    */
-  constructor(message: string, pattern?: string, position?: number) {
-    super(message, 'PATTERN_PARSE_ERROR', { pattern, position });
+  constructor(message: string, pattern?: string, position?: number, end?: number) {
+    super(message, 'PATTERN_PARSE_ERROR', { pattern, position, end });
     this.name = 'PatternParseError';
   }
 }
@@ -20,6 +20,18 @@ export type FieldMapping = string | string[] | FieldExtractor;
  */
 export type FieldMappingConfig = Record<string, FieldMapping>;
 
+/**
+ * 获取消息段的类型名
+ * 
+ * 部分平台以 `{ name }` 对象的形式提供消息段类型，统一转换为字符串。
+ * 
+ * @param segment - 消息段
+ * @returns 消息段类型名
+ */
+export function getSegmentType(segment: MessageSegment): string {
+  return typeof segment.type === 'string' ? segment.type : segment.type?.name;
+}
+
 /**
  * 提取字段值
  * 
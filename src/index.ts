@@ -7,6 +7,10 @@ export { MatchResult } from './match_result';
 export * from './errors';
 export * from './types';
 export * from './type_matchers';
+export { checkConstraints } from './constraints';
+export { lintPattern } from './pattern_linter';
+export { normalizeText, normalizeSegments } from './normalization';
+export { DefaultValueRegistry } from './default_values';
 
 // 默认导出
 export { SegmentMatcher as default } from './segment_matcher'; 
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { MessageSegment } from './types';
+import { getSegmentType } from './field_mapping';
+
+/**
+ * 规范化文本
+ * 
+ * 使用 NFKC 规范化，将全角字母、数字、标点和空格转换为半角，
+ * 例如 `１２３` → `123`、`！help` → `!help`、全角空格 → 普通空格。
+ * 
+ * @param text - 原始文本
+ * @returns 规范化后的文本
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKC');
+}
+
+/**
+ * 规范化消息段数组中的文本段
+ * 
+ * 非文本段和规范化后不变的文本段原样返回，不会修改传入的消息段。
+ * 
+ * @param segments - 消息段数组
+ * @returns 规范化后的消息段数组
+ */
+export function normalizeSegments(segments: MessageSegment[]): MessageSegment[] {
+  return segments.map(segment => {
+    const text = getSegmentType(segment) === 'text' ? segment.data?.text : undefined;
+    if (typeof text !== 'string') {
+      return segment;
+    }
+    
+    const normalized = normalizeText(text);
+    return normalized === text ? segment : { ...segment, data: { ...segment.data, text: normalized } };
+  });
+}
+
+/**
+ * 查找原始文本中与规范化文本的后缀对应的部分
+ * 
+ * 按字符（连同其后的组合字符）从末尾逐段规范化，直到长度与后缀一致。
+ * 
+ * @param original - 原始文本
+ * @param normalizedSuffix - 规范化文本的后缀
+ * @returns 原始文本的后缀，无法对齐时返回 null
+ */
+function findOriginalSuffix(original: string, normalizedSuffix: string): string | null {
+  const chunks = original.match(/\P{M}\p{M}*|\p{M}+/gu) || [];
+  let length = 0;
+  
+  for (let i = chunks.length - 1; i >= 0 && length < normalizedSuffix.length; i--) {
+    length += normalizeText(chunks[i]).length;
+    if (length === normalizedSuffix.length) {
+      const suffix = chunks.slice(i).join('');
+      return normalizeText(suffix) === normalizedSuffix ? suffix : null;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * 将剩余消息段还原为原始文本
+ * 
+ * 剩余消息段是输入消息段的末尾部分：完整的文本段还原为对应的原始文本，
+ * 第一个剩余文本段可能只是原始文本段的后半部分，替换为原始文本中对应的部分。
+ * 无法对应到原始文本的消息段保持规范化后的文本。
+ * 
+ * @param remaining - 匹配后的剩余消息段（基于规范化后的文本）
+ * @param originals - 原始消息段数组
+ * @returns 还原后的剩余消息段
+ */
+export function restoreSegments(remaining: MessageSegment[], originals: MessageSegment[]): MessageSegment[] {
+  const offset = originals.length - remaining.length;
+  if (offset < 0) {
+    return remaining;
+  }
+  
+  return remaining.map((segment, index) => {
+    const original = originals[offset + index];
+    const text = getSegmentType(segment) === 'text' ? segment.data?.text : undefined;
+    const originalText = getSegmentType(original) === 'text' ? original.data?.text : undefined;
+    if (typeof text !== 'string' || typeof originalText !== 'string') {
+      return segment;
+    }
+    
+    const suffix = normalizeText(originalText) === text
+      ? originalText
+      : index === 0 ? findOriginalSuffix(originalText, text) : null;
+    return suffix === null ? segment : { ...segment, data: { ...segment.data, text: suffix } };
+  });
+}
@@ -0,0 +1,155 @@
+import { PatternAstNode, LintDiagnostic } from './types';
+import { PatternParser } from './pattern_parser';
+import { PatternParseError } from './errors';
+import { checkDefaultValue } from './default_values';
+
+/**
+ * 按源码顺序收集语法树中的所有元素（展开可选组）
+ */
+function flattenNodes(nodes: PatternAstNode[]): PatternAstNode[] {
+  return nodes.flatMap(node => node.type === 'group' ? [node, ...flattenNodes(node.children || [])] : [node]);
+}
+
+/**
+ * 判断元素是否为只包含空白的字面量
+ */
+function isBlankLiteral(node: PatternAstNode): boolean {
+  return node.type === 'literal' && !(node.token?.value || '').trim();
+}
+
+/**
+ * 检查一段元素序列中贪婪文本参数之后的元素
+ * 
+ * text 参数会尽量多地消费文本：紧跟其后的可选参数永远得不到值，
+ * 紧跟其后的必需参数则依赖回溯确定分割位置，结果可能不符合预期。
+ */
+function lintGreedyText(nodes: PatternAstNode[], diagnostics: LintDiagnostic[]): void {
+  const positional = nodes.filter(node => node.type !== 'option');
+  
+  positional.forEach((node, index) => {
+    if (node.type === 'group') {
+      lintGreedyText(node.children || [], diagnostics);
+      return;
+    }
+    
+    // text~ 和 text$ 的结束位置是确定的，不存在歧义
+    const token = node.token;
+    if (node.type !== 'parameter' || !token || token.dataType !== 'text' || token.quantifier || token.textMode === 'until' || token.textMode === 'line') {
+      return;
+    }
+    
+    const next = positional.slice(index + 1).find(sibling => !isBlankLiteral(sibling));
+    const nextToken = next?.token;
+    if (!next || !nextToken || (next.type !== 'parameter' && next.type !== 'rest_parameter')) {
+      return;
+    }
+    
+    if (nextToken.optional || next.type === 'rest_parameter') {
+      diagnostics.push({
+        code: 'unreachable_optional',
+        severity: 'warning',
+        message: `Optional parameter '${nextToken.name}' never receives a value after greedy text parameter '${token.name}'`,
+        start: next.start,
+        end: next.end
+      });
+    } else {
+      diagnostics.push({
+        code: 'ambiguous_text',
+        severity: 'warning',
+        message: `Parameter '${nextToken.name}' follows greedy text parameter '${token.name}'; the split between them is ambiguous`,
+        start: next.start,
+        end: next.end
+      });
+    }
+  });
+}
+
+/**
+ * 检查命令模式中无法匹配或有歧义的元素
+ * 
+ * 检查以下问题：
+ * - `parse_error`（error）：模式无法解析
+ * - `duplicate_name`（error）：参数名重复
+ * - `rest_not_last`（error）：剩余参数之后还有其他元素
+ * - `invalid_default`（error）：默认值与类型或约束不符，如 `[n:number=abc]`
+ * - `ambiguous_text`（warning）：text 参数之后紧跟必需参数
+ * - `unreachable_optional`（warning）：text 参数之后紧跟的可选参数永远得不到值
+ * 
+ * 本函数不会抛出异常，解析错误也以问题的形式返回。
+ * 
+ * @param pattern - 命令模式字符串
+ * @returns 按位置排序的问题列表，没有问题时返回空数组
+ * 
+ * @example
+ * ```typescript
+ * lintPattern('add [...items] <n:number>');
+ * // [{ code: 'rest_not_last', severity: 'error', start: 4, end: 14, message: ... }]
+ * ```
+ */
+export function lintPattern(pattern: string): LintDiagnostic[] {
+  let ast: PatternAstNode;
+  try {
+    ast = PatternParser.parseAst(pattern);
+  } catch (error) {
+    const details = error instanceof PatternParseError ? error.details : undefined;
+    const start = typeof details?.position === 'number' ? details.position : 0;
+    return [{
+      code: 'parse_error',
+      severity: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      start,
+      end: typeof details?.end === 'number' ? details.end : pattern.length
+    }];
+  }
+  
+  const diagnostics: LintDiagnostic[] = [];
+  const nodes = flattenNodes(ast.children || []);
+  const seen = new Set<string>();
+  
+  nodes.forEach((node, index) => {
+    const token = node.token;
+    if (!token) {
+      return;
+    }
+    
+    // 自动分配的 $1、$2 不会重复，只检查显式声明的名称
+    if (token.name && (node.type !== 'alternation' || !token.name.startsWith('$'))) {
+      if (seen.has(token.name)) {
+        diagnostics.push({
+          code: 'duplicate_name',
+          severity: 'error',
+          message: `Parameter name '${token.name}' is declared more than once`,
+          start: node.start,
+          end: node.end
+        });
+      }
+      seen.add(token.name);
+    }
+    
+    // 忽略空白字面量，例如剩余参数与末尾选项之间的空格
+    const trailing = nodes.slice(index + 1).filter(later => later.type !== 'option' && later.type !== 'group' && !isBlankLiteral(later));
+    if (node.type === 'rest_parameter' && trailing.length > 0) {
+      diagnostics.push({
+        code: 'rest_not_last',
+        severity: 'error',
+        message: `Rest parameter '${token.name}' must be the last element of the pattern`,
+        start: node.start,
+        end: node.end
+      });
+    }
+    
+    const defaultProblem = checkDefaultValue(token, token.defaultValue);
+    if (defaultProblem) {
+      diagnostics.push({
+        code: 'invalid_default',
+        severity: 'error',
+        message: defaultProblem,
+        start: node.start,
+        end: node.end
+      });
+    }
+  });
+  
+  lintGreedyText(ast.children || [], diagnostics);
+  return diagnostics.sort((a, b) => a.start - b.start);
+}
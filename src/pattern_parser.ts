@@ -1,7 +1,10 @@
 
 
 import { PatternToken } from './pattern_token';
+import { ParameterConstraints, Quantifier, PatternAstNode, PatternParseOptions, TextMode } from './types';
 import { PatternParseError } from './errors';
+import { RegexTypeMatcher, EnumTypeMatcher } from './type_matchers';
+import { normalizeText } from './normalization';
 
 /**
  * 解析缓存
@@ -32,6 +35,263 @@ function optimizedTrim(str: string): string {
   return str.substring(start, end);
 }
 
+/**
+ * 命名选项名称的语法（正则表达式源码）：单个字母的短选项或以字母开头的长选项
+ * 
+ * 模式解析和从消息中提取选项使用同一套规则。短选项不能是数字，避免与负数混淆。
+ */
+export const OPTION_NAME_SOURCE = '-[A-Za-z]|--[A-Za-z][\\w-]*';
+
+/**
+ * 支持约束语法的数据类型
+ */
+const CONSTRAINABLE_TYPES = ['number', 'integer', 'float', 'word', 'text'];
+
+/**
+ * text 参数匹配方式的类型后缀
+ */
+const TEXT_MODE_SUFFIXES: Record<TextMode, string> = {
+  lazy: '?',
+  until: '~',
+  line: '$'
+};
+
+/**
+ * 可以用反斜杠转义的模式特殊字符
+ */
+const ESCAPABLE_CHARS = '\\{}<>[]()|+*$';
+
+/**
+ * 去除模式转义
+ * 
+ * 将 `\{`、`\<`、`\[`、`\]`、`\\` 等转义序列还原为原字符，
+ * 其他反斜杠（如 `\d`）保持不变。
+ */
+function unescapePattern(str: string): string {
+  if (str.indexOf('\\') === -1) {
+    return str;
+  }
+  
+  let result = '';
+  for (let i = 0; i < str.length; i++) {
+    if (str[i] === '\\' && i + 1 < str.length && ESCAPABLE_CHARS.includes(str[i + 1])) {
+      result += str[i + 1];
+      i++;
+    } else {
+      result += str[i];
+    }
+  }
+  return result;
+}
+
+/**
+ * 添加模式转义
+ * 
+ * unescapePattern 的逆操作，为所有可转义的特殊字符添加反斜杠。
+ */
+function escapePattern(str: string): string {
+  let result = '';
+  for (const char of str) {
+    result += ESCAPABLE_CHARS.includes(char) ? '\\' + char : char;
+  }
+  return result;
+}
+
+/**
+ * 去除通配符值中的模式转义
+ * 
+ * 与 unescapePattern 相同，但保留 `\*` 和 `\\`，
+ * 使通配符值中可以区分字面量星号和通配符。
+ */
+function unescapeGlob(str: string): string {
+  let result = '';
+  for (let i = 0; i < str.length; i++) {
+    if (str[i] === '\\' && i + 1 < str.length && ESCAPABLE_CHARS.includes(str[i + 1])) {
+      result += str[i + 1] === '*' || str[i + 1] === '\\' ? str.substring(i, i + 2) : str[i + 1];
+      i++;
+    } else {
+      // 不构成转义的反斜杠按字面量处理
+      result += str[i] === '\\' ? '\\\\' : str[i];
+    }
+  }
+  return result;
+}
+
+/**
+ * 将通配符值编译为正则表达式
+ * 
+ * `*` 匹配任意字符串，`\*` 匹配星号本身，其他字符按字面匹配，整个值必须完全匹配。
+ * 
+ * @example
+ * ```typescript
+ * compileGlob('*.gif'); // /^.*\.gif$/s
+ * ```
+ */
+function compileGlob(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    if (glob[i] === '\\' && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else if (glob[i] === '*') {
+      source += '.*';
+    } else {
+      source += glob[i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * 将通配符值转换回模式写法
+ * 
+ * compileGlob 的输入中保留了 `\*` 和 `\\`，其余字符照常转义。
+ */
+function stringifyGlob(glob: string): string {
+  return glob.replace(/\\[\s\S]|\*|[^\\*]+/g, part => part.length === 2 || part === '*' ? part : escapePattern(part));
+}
+
+/**
+ * 将多字段约束的值转换回模式写法
+ * 
+ * 含有空白或引号的值用双引号包裹，引号写作 `\"`。
+ */
+function stringifyFieldValue(glob: string): string {
+  const value = stringifyGlob(glob);
+  return /[\s"]/.test(value) || !value ? `"${value.replace(/"/g, '\\"')}"` : value;
+}
+
+/**
+ * 查找第一个未被转义的字符位置
+ */
+function indexOfUnescaped(str: string, char: string, fromIndex: number = 0): number {
+  for (let i = fromIndex; i < str.length; i++) {
+    if (str[i] === '\\') {
+      i++;
+    } else if (str[i] === char) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 查找第一个未被转义且不在圆括号内的字符位置
+ * 
+ * 用于在 `[n:integer(>=1)=5]` 这样的内容中定位默认值的 '='。
+ */
+function indexOfOutsideParens(str: string, char: string): number {
+  let depth = 0;
+  for (let i = 0; i < str.length; i++) {
+    if (str[i] === '\\') {
+      i++;
+    } else if (str[i] === '(') {
+      depth++;
+    } else if (str[i] === ')' && depth > 0) {
+      depth--;
+    } else if (depth === 0 && str[i] === char) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 查找内联正则表达式 `/.../` 的结束斜杠
+ * 
+ * 跳过反斜杠转义和字符类 `[...]`，字符类中的 '/' 不结束正则表达式。
+ * 
+ * @param str - 字符串
+ * @param startIndex - 开始斜杠的位置
+ * @returns 结束斜杠的位置，没有结束斜杠时返回 -1
+ */
+function findRegexEnd(str: string, startIndex: number): number {
+  let inClass = false;
+  for (let i = startIndex + 1; i < str.length; i++) {
+    if (str[i] === '\\') {
+      i++;
+    } else if (str[i] === '[') {
+      inClass = true;
+    } else if (str[i] === ']') {
+      inClass = false;
+    } else if (str[i] === '/' && !inClass) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 按未被转义的分隔符分割字符串（保留转义序列）
+ */
+function splitUnescaped(str: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  let index = indexOfUnescaped(str, delimiter);
+  while (index !== -1) {
+    parts.push(str.substring(start, index));
+    start = index + 1;
+    index = indexOfUnescaped(str, delimiter, start);
+  }
+  parts.push(str.substring(start));
+  return parts;
+}
+
+/**
+ * 去除双引号字符串内容中的反斜杠转义
+ */
+function unquote(text: string): string {
+  return text.replace(/\\(.)/gs, '$1');
+}
+
+/**
+ * 分离参数声明末尾的说明和示例
+ * 
+ * 说明和示例是以空白分隔、双引号包裹的字符串，引号内可以用反斜杠转义字符：
+ * - `name:text "用户昵称"` → description 为 `用户昵称`
+ * - `n:integer "骰子数量" "3"` → description 为 `骰子数量`，example 为 `3`
+ */
+function splitDescription(content: string): { content: string; description?: string; example?: string } {
+  const match = /\s+"((?:[^"\\]|\\.)*)"(?:\s+"((?:[^"\\]|\\.)*)")?\s*$/s.exec(content);
+  if (!match) {
+    return { content };
+  }
+  
+  return {
+    content: content.slice(0, match.index),
+    description: unquote(match[1]),
+    example: match[2] !== undefined ? unquote(match[2]) : undefined
+  };
+}
+
+/**
+ * 为说明、示例和字符串默认值添加引号和转义
+ */
+function quoteString(text: string): string {
+  return `"${text.replace(/["\\<>[\]{}()|+*]/g, '\\$&')}"`;
+}
+
+/**
+ * 获取解析缓存的键
+ * 
+ * 默认选项直接使用模式字符串，其他选项组合分别缓存。
+ */
+function getCacheKey(pattern: string, options: PatternParseOptions): string {
+  if (!options.whitespace && !options.normalize) {
+    return pattern;
+  }
+  return `${options.whitespace || ''}\0${options.normalize ? 'normalize' : ''}\0${pattern}`;
+}
+
+/**
+ * 解析过程中共享的状态
+ */
+interface ParseState {
+  /** 当前解析位置（用于错误信息） */
+  position: number;
+  /** 未命名多选字面量的计数，用于生成 $1、$2 等参数名 */
+  alternationCount: number;
+}
+
 /**
  * 模式解析器类
  * 
@@ -54,8 +314,17 @@ export class PatternParser {
    * - 必需参数：`<name:text>`, `<count:number>`
    * - 可选参数：`[message:text]`, `[count:number=1]`
    * - 剩余参数：`[...rest]`, `[...rest:face]`
+   * - 多选字面量：`(add|remove)`, `(action:add|remove)`
+   * - 内联正则参数：`<code:/[A-Z]{4}-\d+/>`, `<code:regex([A-Z]{4}-\d+)>`
+   * - 枚举参数：`<mode:on|off|auto>`, `<mode:enum(on,off,auto)i>`
+   * - 参数约束：`<n:integer(1..100)>`, `<name:word(len 2..16)>`, `<ratio:float(>0)>`
+   * - 命名选项：`[-v|--verbose]`, `[-n|--count:integer=5]`, `<--to:at>`
+   * - 可选组：`[ for <minutes:integer> minutes]`
+   * - 重复量词：`<ids:integer>+`, `<ids:integer>{1,5}`, `{face:1}*`
+   * - 参数说明和示例：`<name:text "用户昵称">`, `[n:integer=1 "骰子数量" "3"]`
    * 
    * @param pattern - 命令模式字符串
+   * @param options - 解析选项（可选），例如空白处理策略
    * @returns 解析后的令牌数组
    * 
    * @throws {PatternParseError} 当模式格式错误或解析失败时抛出
@@ -67,59 +336,212 @@ export class PatternParser {
    * 
    * // 复杂模式
    * const tokens2 = PatternParser.parse('{text:start}<command:text>[count:number=1][...rest]');
+   * 
+   * // 参数前的空格不能省略
+   * const tokens3 = PatternParser.parse('hello <name:text>', { whitespace: 'strict' });
+   * 
+   * // 全角字面量规范化为半角：'！help' → '!help'
+   * const tokens4 = PatternParser.parse('！help', { normalize: true });
    * ```
    */
-  static parse(pattern: string): PatternToken[] {
+  static parse(pattern: string, options: PatternParseOptions = {}): PatternToken[] {
+    const cacheKey = getCacheKey(pattern, options);
+    
     // 检查缓存
-    if (parseCache.has(pattern)) {
-      return parseCache.get(pattern)!;
+    if (parseCache.has(cacheKey)) {
+      return parseCache.get(cacheKey)!;
     }
     
-    const tokens: PatternToken[] = [];
-    let i = 0; // 当前解析位置
+    const ast = PatternParser.parseAst(pattern);
+    const tokens = PatternParser.buildTokens(ast.children || [], options);
+    
+    // 缓存结果
+    parseCache.set(cacheKey, tokens);
+    return tokens;
+  }
+
+  /**
+   * 解析命令模式字符串为语法树
+   * 
+   * 与 parse 支持相同的语法，但返回保留源码位置的语法树，
+   * 不做空格优化和选项重排，适合编辑器高亮、错误定位等工具使用。
+   * 每个节点的 start/end 为其在模式字符串中的起止位置（end 不包含），
+   * 叶子节点通过 token 携带解析出的令牌，sequence 和 group 节点通过 children 携带子节点。
+   * 
+   * @param pattern - 命令模式字符串
+   * @returns 根节点（type 为 sequence）
+   * 
+   * @throws {PatternParseError} 当模式格式错误或解析失败时抛出，details 中包含出错元素的 position 和 end
+   * 
+   * @example
+   * ```typescript
+   * const ast = PatternParser.parseAst('ban <who:at>[ for <minutes:integer> minutes]');
+   * // ast.children[0] → { type: 'literal', start: 0, end: 4, token: ... }
+   * // ast.children[1] → { type: 'parameter', start: 4, end: 12, token: ... }
+   * // ast.children[2] → { type: 'group', start: 12, end: 44, children: [...] }
+   * ```
+   */
+  static parseAst(pattern: string): PatternAstNode {
+    const state: ParseState = { position: 0, alternationCount: 0 };
     
     try {
-      while (i < pattern.length) {
-        const char = pattern[i];
-        
+      const children = PatternParser.parseSequence(pattern, 0, pattern.length, state);
+      return { type: 'sequence', start: 0, end: pattern.length, children };
+    } catch (error) {
+      // 统一错误处理，确保抛出 PatternParseError
+      if (error instanceof PatternParseError) {
+        throw error;
+      }
+      throw new PatternParseError(
+        `Failed to parse pattern: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        pattern,
+        state.position
+      );
+    }
+  }
+
+  /**
+   * 将令牌数组转换回模式字符串
+   * 
+   * 输出规范写法：字面量和值中的特殊字符会被转义，默认值对象和数组以 JSON 输出，
+   * 命名选项统一输出在末尾。对于 parse 得到的令牌，
+   * `parse(stringify(parse(p)))` 与 `parse(p)` 等价。
+   * 
+   * @param tokens - 令牌数组（可以来自 parse，也可以由 PatternToken 的工厂方法构造）
+   * @returns 模式字符串
+   * 
+   * @example
+   * ```typescript
+   * PatternParser.stringify([
+   *   PatternToken.createLiteral('ban '),
+   *   PatternToken.createParameter('who', 'at'),
+   *   PatternToken.createLiteral(' '),
+   *   PatternToken.createParameter('minutes', 'integer', true, 10)
+   * ]); // 'ban <who:at> [minutes:integer=10]'
+   * ```
+   */
+  static stringify(tokens: PatternToken[]): string {
+    const positional = tokens.filter(token => token.type !== 'option').map(PatternParser.stringifyToken).join('');
+    const options = tokens.filter(token => token.type === 'option').map(PatternParser.stringifyToken);
+    return [positional, ...options].filter(part => part !== '').join(' ');
+  }
+
+  /**
+   * 将语法树节点转换为匹配使用的令牌数组
+   * 
+   * 令牌从语法树中复制，随后移动命名选项并优化参数之间的空格，
+   * 不会修改语法树本身。
+   * 
+   * @param nodes - 语法树节点
+   * @param options - 解析选项
+   * @returns 令牌数组
+   */
+  private static buildTokens(nodes: PatternAstNode[], options: PatternParseOptions): PatternToken[] {
+    const tokens = nodes.map(node => node.type === 'group'
+      ? PatternToken.createGroup(PatternParser.buildTokens(node.children || [], options))
+      : new PatternToken(node.token!.type, { ...node.token }));
+    
+    // 规范化字面量，使其与规范化后的输入一致
+    if (options.normalize) {
+      for (const token of tokens) {
+        if (token.value !== undefined && (token.type === 'literal' || token.segmentType === 'text')) {
+          token.value = normalizeText(token.value);
+          if (token.regex) {
+            token.regex = compileGlob(token.value);
+          }
+        }
+        if (token.alternatives) {
+          token.alternatives = token.alternatives.map(normalizeText);
+        }
+      }
+    }
+    
+    // 命名选项不参与位置匹配，统一移动到末尾
+    PatternParser.moveOptionsToEnd(tokens);
+    
+    // 优化：将参数之间的单个空格标记为可选（严格空白策略下不做优化）
+    if (options.whitespace !== 'strict') {
+      PatternParser.optimizeParameterSpaces(tokens);
+    }
+    
+    // text~ 参数以紧随其后的字面量作为结束分隔符
+    tokens.forEach((token, index) => {
+      const next = tokens[index + 1];
+      if (token.textMode === 'until' && next?.type === 'literal' && next.value) {
+        token.delimiter = next.value;
+      }
+    });
+    return tokens;
+  }
+
+  /**
+   * 解析模式字符串中的一段元素序列
+   * 
+   * 用于解析整个模式以及可选组 `[...]` 内部的内容。
+   * 元素解析失败时，错误的 details.end 会记录该元素的结束位置。
+   * 
+   * @param pattern - 完整的模式字符串
+   * @param startIndex - 开始解析的位置
+   * @param endIndex - 结束解析的位置（不包含）
+   * @param state - 解析状态（当前位置和多选字面量计数）
+   * @returns 语法树节点数组
+   */
+  private static parseSequence(pattern: string, startIndex: number, endIndex: number, state: ParseState): PatternAstNode[] {
+    const nodes: PatternAstNode[] = [];
+    let i = startIndex; // 当前解析位置
+    
+    while (i < endIndex) {
+      state.position = i;
+      const start = i;
+      const char = pattern[i];
+      const isBracket = char === '{' || char === '<' || char === '[' || (char === '(' && PatternParser.isAlternation(pattern, i));
+      const close = isBracket ? PatternParser.findClosingBrace(pattern, i) : endIndex;
+      
+      try {
         // 根据当前字符类型选择解析方法
         if (char === '{') {
-          // 解析类型化字面量：{type:value}
-          tokens.push(PatternParser.parseTypedLiteral(pattern, i));
-          i = PatternParser.findClosingBrace(pattern, i);
+          // 解析类型化字面量：{type:value}，可以带重复量词
+          const token = PatternParser.parseTypedLiteral(pattern, i);
+          i = PatternParser.parseQuantifier(pattern, close, token);
+          nodes.push({ type: token.type, start, end: i, token });
         } else if (char === '<') {
-          // 解析必需参数：<name:type>
-          tokens.push(PatternParser.parseRequiredParameter(pattern, i));
-          i = PatternParser.findClosingBrace(pattern, i);
+          // 解析必需参数：<name:type>，可以带重复量词
+          const token = PatternParser.parseRequiredParameter(pattern, i);
+          i = token.type === 'parameter' ? PatternParser.parseQuantifier(pattern, close, token) : close;
+          nodes.push({ type: token.type, start, end: i, token });
+        } else if (char === '[' && PatternParser.isGroup(pattern, i)) {
+          // 解析可选组：[ for <minutes:integer> minutes]
+          nodes.push(PatternParser.parseGroup(pattern, i, state));
+          i = close;
         } else if (char === '[') {
           // 解析可选参数：[name:type] 或 [name:type=default]
-          tokens.push(PatternParser.parseOptionalParameter(pattern, i));
-          i = PatternParser.findClosingBrace(pattern, i);
+          const token = PatternParser.parseOptionalParameter(pattern, i);
+          i = close;
+          nodes.push({ type: token.type, start, end: i, token });
+        } else if (char === '(' && isBracket) {
+          // 解析多选字面量：(a|b|c) 或 (name:a|b|c)
+          const token = PatternParser.parseAlternation(pattern, i);
+          if (!token.name) {
+            token.name = `$${++state.alternationCount}`;
+          }
+          i = close;
+          nodes.push({ type: token.type, start, end: i, token });
         } else {
           // 解析普通字面量
-          const { token, newIndex } = PatternParser.parseLiteral(pattern, i);
-          if (token) tokens.push(token);
+          const { token, newIndex } = PatternParser.parseLiteral(pattern, i, endIndex);
           i = newIndex;
+          if (token) nodes.push({ type: token.type, start, end: i, token });
+        }
+      } catch (error) {
+        // 为元素内部的错误补充结束位置
+        if (error instanceof PatternParseError && error.details && error.details.end === undefined) {
+          error.details.end = close;
         }
-      }
-      
-      // 优化：将参数之间的单个空格标记为可选
-      PatternParser.optimizeParameterSpaces(tokens);
-      
-      // 缓存结果
-      parseCache.set(pattern, tokens);
-      return tokens;
-    } catch (error) {
-      // 统一错误处理，确保抛出 PatternParseError
-      if (error instanceof PatternParseError) {
         throw error;
       }
-      throw new PatternParseError(
-        `Failed to parse pattern: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        pattern,
-        i
-      );
     }
+    
+    return nodes;
   }
 
   /**
@@ -146,7 +568,7 @@ export class PatternParser {
           token.value.endsWith(' ') && 
           !token.value.endsWith('  ') &&
           nextToken && 
-          (nextToken.type === 'parameter' || nextToken.type === 'rest_parameter')) {
+          (nextToken.type === 'parameter' || nextToken.type === 'rest_parameter' || nextToken.type === 'group')) {
         
         // 将字面量分离为两部分
         const withoutSpace = token.value.slice(0, -1);
@@ -175,12 +597,162 @@ export class PatternParser {
           token.value === ' ' && 
           !token.optional &&
           nextToken && 
-          (nextToken.type === 'parameter' || nextToken.type === 'rest_parameter')) {
+          (nextToken.type === 'parameter' || nextToken.type === 'rest_parameter' || nextToken.type === 'group')) {
         token.optional = true;
       }
     }
   }
 
+  /**
+   * 将单个令牌转换为模式字符串
+   * 
+   * @param token - 令牌
+   * @returns 令牌对应的模式字符串
+   */
+  private static stringifyToken(token: PatternToken): string {
+    const quantifier = PatternParser.stringifyQuantifier(token.quantifier);
+    // 只有示例时，说明输出为空字符串占位
+    const notes = token.example !== undefined ? [token.description || '', token.example] : token.description !== undefined ? [token.description] : [];
+    const description = notes.map(text => ` ${quoteString(text)}`).join('');
+    
+    switch (token.type) {
+      case 'literal':
+        return escapePattern(token.value || '');
+      case 'typed_literal': {
+        if (token.fields) {
+          const fields = token.fields.map(field => ` ${field.key}=${stringifyFieldValue(field.value)}`).join('');
+          return `{${token.segmentType}${fields}}${quantifier}`;
+        }
+        const value = token.regex ? stringifyGlob(token.value || '') : escapePattern(token.value || '');
+        return `{${token.segmentType}:${value}}${quantifier}`;
+      }
+      case 'alternation': {
+        // $1、$2 等是自动分配的参数名，按原顺序输出时会重新分配
+        const name = token.name && !/^\$\d+$/.test(token.name) ? `${token.name}:` : '';
+        return `(${name}${(token.alternatives || []).map(escapePattern).join('|')})`;
+      }
+      case 'rest_parameter':
+        return `[...${token.name}${typeof token.dataType === 'string' ? `:${token.dataType}` : ''}${description}]`;
+      case 'group':
+        return `[${PatternParser.stringify(token.children || [])}]`;
+      case 'option': {
+        const type = token.dataType ? `:${PatternParser.stringifyType(token)}` : '';
+        // 布尔开关的默认值 false 是隐含的
+        const hasDefault = token.defaultValue !== undefined && (token.dataType || token.defaultValue !== false);
+        const defaultValue = token.defaultProvider
+          ? `=$${token.defaultProvider}`
+          : hasDefault ? `=${PatternParser.stringifyDefaultValue(token.defaultValue, notes.length > 0)}` : '';
+        const content = `${(token.optionNames || []).join('|')}${type}${defaultValue}${description}`;
+        return token.optional ? `[${content}]` : `<${content}>`;
+      }
+      case 'parameter':
+      default: {
+        const declaration = `${token.name}${token.dataType ? `:${PatternParser.stringifyType(token)}` : ''}`;
+        if (!token.optional) {
+          return `<${declaration}${description}>${quantifier}`;
+        }
+        const defaultValue = token.defaultProvider
+          ? `=$${token.defaultProvider}`
+          : token.defaultValue !== undefined ? `=${PatternParser.stringifyDefaultValue(token.defaultValue, notes.length > 0)}` : '';
+        return `[${declaration}${defaultValue}${description}]`;
+      }
+    }
+  }
+
+  /**
+   * 将参数的数据类型转换为模式写法
+   * 
+   * 还原内联正则、枚举和约束的写法，其他类型原样输出。
+   * 
+   * @param token - 参数或命名选项令牌
+   * @returns 数据类型的模式写法
+   */
+  private static stringifyType(token: PatternToken): string {
+    if (token.dataType === 'regex' && token.regex) {
+      return `/${token.regex.source}/${token.regex.flags}`;
+    }
+    
+    if (token.dataType === 'enum' && token.choices) {
+      const caseInsensitive = token.matcher instanceof EnumTypeMatcher && token.matcher.caseInsensitive;
+      // 'a|b' 写法不能忽略大小写，也不能表示单个选项；enum(...) 写法不能表示含逗号的选项
+      if (!caseInsensitive && token.choices.length > 1 && token.choices.some(choice => choice.includes(','))) {
+        return token.choices.map(escapePattern).join('|');
+      }
+      return `enum(${token.choices.map(escapePattern).join(',')})${caseInsensitive ? 'i' : ''}`;
+    }
+    
+    const constraints = token.constraints ? PatternParser.stringifyConstraints(token.constraints) : '';
+    const suffix = token.textMode ? TEXT_MODE_SUFFIXES[token.textMode] : '';
+    return `${constraints ? `${token.dataType}(${constraints})` : token.dataType || ''}${suffix}`;
+  }
+
+  /**
+   * 将参数约束转换为模式写法
+   * 
+   * @param constraints - 参数约束
+   * @returns 约束字符串，如 `1..100`、`>0`、`len 2..16`
+   */
+  private static stringifyConstraints(constraints: ParameterConstraints): string {
+    const parts: string[] = [];
+    const { min, max, exclusiveMin, exclusiveMax, minLength, maxLength } = constraints;
+    
+    if (min !== undefined && max !== undefined && !exclusiveMin && !exclusiveMax) {
+      parts.push(min === max ? `${min}` : `${min}..${max}`);
+    } else {
+      if (min !== undefined) parts.push(`${exclusiveMin ? '>' : '>='}${min}`);
+      if (max !== undefined) parts.push(`${exclusiveMax ? '<' : '<='}${max}`);
+    }
+    
+    if (minLength !== undefined || maxLength !== undefined) {
+      parts.push(minLength !== undefined && minLength === maxLength
+        ? `len ${minLength}`
+        : `len ${minLength ?? ''}..${maxLength ?? ''}`);
+    }
+    
+    return parts.join(',');
+  }
+
+  /**
+   * 将重复量词转换为模式写法
+   * 
+   * @param quantifier - 重复量词
+   * @returns `+`、`*`、`{n}`、`{n,}` 或 `{n,m}`，没有量词时返回空字符串
+   */
+  private static stringifyQuantifier(quantifier?: Quantifier): string {
+    if (!quantifier) {
+      return '';
+    }
+    if (quantifier.max === undefined) {
+      return quantifier.min === 0 ? '*' : quantifier.min === 1 ? '+' : `{${quantifier.min},}`;
+    }
+    return quantifier.min === quantifier.max ? `{${quantifier.min}}` : `{${quantifier.min},${quantifier.max}}`;
+  }
+
+  /**
+   * 将默认值转换为模式写法
+   * 
+   * 对象和数组以 JSON 输出，只转义 JSON 字符串内的特殊字符，
+   * 使结构括号保持配对；其他值输出为字符串，特殊字符会被转义。
+   * 不加引号无法还原的字符串（如 `'42'`、`'true'`、`' padded '`）和之后有说明的字符串加引号输出，
+   * 使 parse(stringify(tokens)) 得到相同的默认值。
+   * 
+   * @param value - 默认值
+   * @param beforeDescription - 之后是否有说明
+   * @returns 默认值的模式写法
+   */
+  private static stringifyDefaultValue(value: unknown, beforeDescription = false): string {
+    if (typeof value === 'string') {
+      const escaped = escapePattern(value);
+      return beforeDescription || PatternParser.parseDefaultValue(escaped) !== value ? quoteString(value) : escaped;
+    }
+    if (value === null || typeof value !== 'object') {
+      return escapePattern(String(value));
+    }
+    
+    // JSON 字符串中的 '"' 总是以 '\"' 形式出现，因此按未转义的引号切分出字符串
+    return JSON.stringify(value).replace(/"(?:[^"\\]|\\.)*"/g, escapePattern);
+  }
+
   /**
    * 清除解析缓存
    * 
@@ -217,25 +789,56 @@ export class PatternParser {
    * 
    * // 图片类型化字面量
    * const token3 = PatternParser.parseTypedLiteral('{image:avatar.png}', 0);
+   * 
+   * // 通配符：任意 at 消息段、任意 gif 图片
+   * const token4 = PatternParser.parseTypedLiteral('{at:*}', 0);
+   * const token5 = PatternParser.parseTypedLiteral('{image:*.gif}', 0);
+   * 
+   * // 多字段约束：同时检查消息段数据的多个字段，含有空白的值用双引号包裹
+   * const token6 = PatternParser.parseTypedLiteral('{image file=a.png sub_type=1}', 0);
+   * const token7 = PatternParser.parseTypedLiteral('{image file="a b.png"}', 0);
    * ```
    */
   private static parseTypedLiteral(pattern: string, startIndex: number): PatternToken {
-    let i = startIndex + 1; // 跳过 '{'
-    let content = '';
+    // 收集 '{' 和 '}' 之间的内容（支持转义的 '\}'）
+    const endIndex = PatternParser.findClosingBrace(pattern, startIndex);
+    const content = pattern.slice(startIndex + 1, endIndex - 1);
     
-    // 收集 '{' 和 '}' 之间的内容
-    while (i < pattern.length && pattern[i] !== '}') {
-      content += pattern[i];
-      i++;
+    // 类型名之后以空白分隔的 key=value 为多字段约束
+    const fieldsMatch = /^\s*([^\s:]+)\s+([^\s:][\s\S]*)$/.exec(content);
+    if (fieldsMatch) {
+      const parts = fieldsMatch[2].matchAll(/(\S+?)=("(?:[^"\\]|\\.)*")(?=\s|$)|\S+/g);
+      const fields = Array.from(parts, ([part, quotedKey, quoted]) => {
+        if (quoted !== undefined) {
+          // 引号内的 \" 表示引号本身，其余转义与不带引号的值相同
+          const value = unescapeGlob(quoted.slice(1, -1).replace(/\\[\s\S]/g, escape => escape === '\\"' ? '"' : escape));
+          return { key: quotedKey, value, regex: compileGlob(value) };
+        }
+        const separator = part.indexOf('=');
+        if (separator <= 0 || part[separator + 1] === '"') {
+          throw new PatternParseError(`Invalid field constraint '${part}' in typed literal`, pattern, startIndex, endIndex);
+        }
+        const value = unescapeGlob(part.slice(separator + 1));
+        return { key: part.slice(0, separator), value, regex: compileGlob(value) };
+      });
+      return new PatternToken('typed_literal', { segmentType: fieldsMatch[1], fields });
     }
     
     // 只分割第一个冒号，避免 URL 中的冒号被错误分割
     const parts = optimizedSplit(content, ':');
     const type = optimizedTrim(parts[0]);
-    const value = parts.length > 1 ? optimizedTrim(parts[1]) : '';
+    const rawValue = parts.length > 1 ? optimizedTrim(parts[1]) : '';
+    
+    // 值中含有未转义的 `*` 时作为通配符，匹配时与字段值整体比较
+    if (indexOfUnescaped(rawValue, '*') !== -1) {
+      const glob = unescapeGlob(rawValue);
+      const token = PatternToken.createTypedLiteral(type, glob);
+      token.regex = compileGlob(glob);
+      return token;
+    }
     
     // 不做类型白名单校验
-    return PatternToken.createTypedLiteral(type as any, value);
+    return PatternToken.createTypedLiteral(type as any, unescapePattern(rawValue));
   }
 
   /**
@@ -258,16 +861,19 @@ export class PatternParser {
    * 
    * // 表情参数
    * const token3 = PatternParser.parseRequiredParameter('<emoji:face>', 0);
+   * 
+   * // 带说明和示例的参数
+   * const token4 = PatternParser.parseRequiredParameter('<n:integer "骰子数量" "3">', 0);
    * ```
    */
   private static parseRequiredParameter(pattern: string, startIndex: number): PatternToken {
-    let i = startIndex + 1; // 跳过 '<'
-    let content = '';
+    // 收集 '<' 和 '>' 之间的内容（支持转义的 '\>'）
+    const endIndex = PatternParser.findClosingBrace(pattern, startIndex);
+    const { content, description, example } = splitDescription(pattern.slice(startIndex + 1, endIndex - 1));
     
-    // 收集 '<' 和 '>' 之间的内容
-    while (i < pattern.length && pattern[i] !== '>') {
-      content += pattern[i];
-      i++;
+    // 必需的命名选项：<--to:at>
+    if (content.startsWith('-')) {
+      return PatternParser.describe(PatternParser.parseOption(content, false, pattern, startIndex), description, example);
     }
     
     // 分割参数名和类型
@@ -276,7 +882,12 @@ export class PatternParser {
     const segType = parts.length > 1 ? optimizedTrim(parts[1]) : 'text';
     
     // 不做类型白名单校验
-    return PatternToken.createParameter(name, segType, false);
+    const token = PatternParser.resolveParameterType(
+      PatternToken.createParameter(name, segType, false),
+      pattern,
+      startIndex
+    );
+    return PatternParser.describe(token, description, example);
   }
 
   /**
@@ -304,12 +915,55 @@ export class PatternParser {
    * // 剩余参数
    * const token4 = PatternParser.parseOptionalParameter('[...rest]', 0);
    * const token5 = PatternParser.parseOptionalParameter('[...rest:face]', 0);
+   * 
+   * // 带说明的可选参数
+   * const token6 = PatternParser.parseOptionalParameter('[count:number=1 "重复次数"]', 0);
    * ```
    */
   private static parseOptionalParameter(pattern: string, startIndex: number): PatternToken {
     // 使用 findClosingBrace 获取完整内容
     const endIndex = PatternParser.findClosingBrace(pattern, startIndex);
-    const content = pattern.slice(startIndex + 1, endIndex - 1); // 不包括 '[' 和 ']'
+    const raw = pattern.slice(startIndex + 1, endIndex - 1); // 不包括 '[' 和 ']'
+    const split = splitDescription(raw);
+    
+    // 未加引号的字符串默认值可以包含引号（如 `[msg:text=say "hi"]`），此时末尾的引号字符串属于默认值
+    const equalIndex = indexOfOutsideParens(split.content, '=');
+    const { content, description, example } = equalIndex === -1 || PatternParser.allowsDescription(split.content.slice(equalIndex + 1))
+      ? split
+      : { content: raw, description: undefined, example: undefined };
+    const token = PatternParser.parseOptionalContent(content, pattern, startIndex);
+    return PatternParser.describe(token, description, example);
+  }
+
+  /**
+   * 判断默认值之后能否跟说明
+   * 
+   * 只有默认值加了引号，或者是数字、布尔值、JSON、运行时默认值时，
+   * 之后的引号字符串才作为说明，例如 `[n:integer=6 "骰子面数"]`、`[msg:text="hi" "问候语"]`。
+   * 
+   * @param defaultValueStr - 说明之前的默认值字符串
+   * @returns 是否可以分离说明
+   */
+  private static allowsDescription(defaultValueStr: string): boolean {
+    const trimmed = optimizedTrim(defaultValueStr);
+    return trimmed.startsWith('"')
+      || PatternParser.parseDefaultProvider(trimmed) !== undefined
+      || typeof PatternParser.parseDefaultValue(trimmed) !== 'string';
+  }
+
+  /**
+   * 解析可选参数括号内的声明（不含说明和示例）
+   * 
+   * @param content - 括号内的内容
+   * @param pattern - 完整的模式字符串（用于错误信息）
+   * @param startIndex - 参数在模式中的起始位置（用于错误信息）
+   * @returns 解析后的令牌
+   */
+  private static parseOptionalContent(content: string, pattern: string, startIndex: number): PatternToken {
+    // 检查是否为命名选项：-v|--verbose 或 -n|--count:integer=5
+    if (content.startsWith('-')) {
+      return PatternParser.parseOption(content, true, pattern, startIndex);
+    }
     
     // 检查是否为剩余参数：...rest 或 ...rest:type
     if (content.startsWith('...')) {
@@ -322,31 +976,487 @@ export class PatternParser {
        }
     }
     
-    // 检查是否包含默认值（等号）
-    const equalIndex = content.indexOf('=');
+    // 检查是否包含默认值（等号，忽略类型参数括号内的 '='）
+    const equalIndex = indexOfOutsideParens(content, '=');
     if (equalIndex !== -1) {
       // 包含默认值：[name:type=default]
       const beforeEqual = content.slice(0, equalIndex);
       const afterEqual = content.slice(equalIndex + 1);
       
       const [name, type] = optimizedSplit(beforeEqual, ':');
-      const defaultValue = PatternParser.parseDefaultValue(afterEqual);
+      const defaultProvider = PatternParser.parseDefaultProvider(afterEqual);
+      const defaultValue = defaultProvider ? undefined : PatternParser.parseDefaultValue(afterEqual);
       
-      return PatternToken.createParameter(
-        optimizedTrim(name),
-        optimizedTrim(type || 'text'),
-        true,
-        defaultValue
-      );
+      const token = PatternToken.createParameter(optimizedTrim(name), optimizedTrim(type || 'text'), true, defaultValue);
+      if (defaultProvider) {
+        token.defaultProvider = defaultProvider;
+      }
+      return PatternParser.resolveParameterType(token, pattern, startIndex);
     } else {
       // 不包含默认值：[name:type]
       const [name, type] = optimizedSplit(content, ':');
-      return PatternToken.createParameter(
-        optimizedTrim(name),
-        optimizedTrim(type || 'text'),
-        true
+      return PatternParser.resolveParameterType(
+        PatternToken.createParameter(optimizedTrim(name), optimizedTrim(type || 'text'), true),
+        pattern,
+        startIndex
+      );
+    }
+  }
+
+  /**
+   * 为参数令牌设置说明和示例
+   * 
+   * @param token - 参数令牌
+   * @param description - 参数说明（可选）
+   * @param example - 示例值（可选）
+   * @returns 同一个令牌
+   */
+  private static describe(token: PatternToken, description?: string, example?: string): PatternToken {
+    if (description !== undefined) token.description = description;
+    if (example !== undefined) token.example = example;
+    return token;
+  }
+
+  /**
+   * 解析命名选项
+   * 
+   * 解析 `-v|--verbose`、`-n|--count:integer=5` 这样的选项声明。
+   * 多个写法用 '|' 分隔，参数名取长选项名（没有时取短选项名）去掉前缀后的部分。
+   * 没有类型的选项为布尔开关，默认值为 false。
+   * 
+   * @param content - 括号内的内容
+   * @param optional - 是否为可选选项（`[...]` 为可选，`<...>` 为必需）
+   * @param pattern - 完整的模式字符串（用于错误信息）
+   * @param startIndex - 选项在模式中的起始位置（用于错误信息）
+   * @returns 命名选项令牌
+   * 
+   * @throws {PatternParseError} 当选项名格式错误时抛出
+   * 
+   * @example
+   * ```typescript
+   * // [-v|--verbose] → name === 'verbose', dataType === null
+   * // [-n|--count:integer=5] → name === 'count', dataType === 'integer'
+   * // <--to:at> → name === 'to', optional === false
+   * ```
+   */
+  private static parseOption(content: string, optional: boolean, pattern: string, startIndex: number): PatternToken {
+    const equalIndex = indexOfOutsideParens(content, '=');
+    const declaration = equalIndex === -1 ? content : content.slice(0, equalIndex);
+    const [names, type] = optimizedSplit(declaration, ':');
+    
+    const optionNames = names.split('|').map(optimizedTrim);
+    for (const optionName of optionNames) {
+      if (!new RegExp(`^(?:${OPTION_NAME_SOURCE})$`).test(optionName)) {
+        throw new PatternParseError(`Invalid option name '${optionName}'`, pattern, startIndex);
+      }
+    }
+    
+    const longName = optionNames.find(optionName => optionName.startsWith('--')) || optionNames[0];
+    const dataType = type !== undefined ? optimizedTrim(type) : null;
+    const defaultProvider = equalIndex !== -1 ? PatternParser.parseDefaultProvider(content.slice(equalIndex + 1)) : undefined;
+    let defaultValue: any;
+    if (equalIndex !== -1 && !defaultProvider) {
+      defaultValue = PatternParser.parseDefaultValue(content.slice(equalIndex + 1));
+    } else if (dataType === null && !defaultProvider) {
+      defaultValue = false;
+    }
+    
+    const token = PatternToken.createOption(longName.replace(/^--?/, ''), optionNames, dataType, optional, defaultValue);
+    if (defaultProvider) {
+      token.defaultProvider = defaultProvider;
+    }
+    return PatternParser.resolveParameterType(token, pattern, startIndex);
+  }
+
+  /**
+   * 将命名选项移动到令牌数组末尾
+   * 
+   * 选项不参与位置参数的匹配，移除后合并其两侧的字面量，
+   * 并去掉多余的一个空格，使 `send [-v|--verbose] <msg:text>`
+   * 的位置部分等价于 `send <msg:text>`。
+   * 
+   * @param tokens - 解析后的令牌数组
+   */
+  private static moveOptionsToEnd(tokens: PatternToken[]): void {
+    const options: PatternToken[] = [];
+    
+    for (let i = 0; i < tokens.length;) {
+      if (tokens[i].type !== 'option') {
+        i++;
+        continue;
+      }
+      
+      options.push(...tokens.splice(i, 1));
+      const prev = i > 0 && tokens[i - 1].type === 'literal' ? tokens[i - 1] : null;
+      const next = i < tokens.length && tokens[i].type === 'literal' ? tokens[i] : null;
+      const prevValue = prev?.value || '';
+      const nextValue = next?.value || '';
+      
+      // 选项两侧的空格只保留一个；位于开头或末尾时去掉相邻的空格
+      if (next && nextValue.startsWith(' ') && (i === 0 || prevValue.endsWith(' '))) {
+        next.value = nextValue.slice(1);
+      } else if (prev && prevValue.endsWith(' ') && i === tokens.length) {
+        prev.value = prevValue.slice(0, -1);
+      }
+      
+      // 合并相邻的字面量
+      if (prev && next) {
+        prev.value = (prev.value || '') + (next.value || '');
+        tokens.splice(i, 1);
+      }
+      
+      // 移除变为空的字面量
+      for (const index of [i, i - 1]) {
+        if (index >= 0 && index < tokens.length && tokens[index].type === 'literal' && !tokens[index].value) {
+          tokens.splice(index, 1);
+        }
+      }
+    }
+    
+    tokens.push(...options);
+  }
+
+  /**
+   * 解析重复量词
+   * 
+   * 紧跟在必需参数或类型化字面量之后的 `+`（至少一次）、`*`（任意次）、
+   * `{n}`（恰好 n 次）、`{n,}`（至少 n 次）或 `{n,m}`（n 到 m 次）。
+   * 如需在参数后紧跟 `+` 或 `*` 字面量，可使用 `\+`、`\*` 转义。
+   * 
+   * @param pattern - 完整的模式字符串
+   * @param index - 令牌结束后的位置
+   * @param token - 被修饰的令牌
+   * @returns 量词结束后的位置（没有量词时原样返回）
+   * 
+   * @throws {PatternParseError} 当次数范围无效时抛出
+   * 
+   * @example
+   * ```typescript
+   * // <ids:integer>+    → quantifier === { min: 1 }
+   * // <ids:integer>{1,5} → quantifier === { min: 1, max: 5 }
+   * // {face:1}*         → quantifier === { min: 0 }
+   * ```
+   */
+  private static parseQuantifier(pattern: string, index: number, token: PatternToken): number {
+    const match = /^(?:\+|\*|\{(\d+)(,(\d*))?\})/.exec(pattern.slice(index));
+    if (!match) {
+      return index;
+    }
+    
+    const quantifier: Quantifier = match[0] === '+' ? { min: 1 } : match[0] === '*' ? { min: 0 } : { min: Number(match[1]) };
+    if (match[1] !== undefined && (match[2] === undefined || match[3])) {
+      // {n} 或 {n,m}
+      quantifier.max = match[2] === undefined ? quantifier.min : Number(match[3]);
+    }
+    if (quantifier.max !== undefined && (quantifier.max < quantifier.min || quantifier.max === 0)) {
+      throw new PatternParseError(`Invalid quantifier '${match[0]}'`, pattern, index, index + match[0].length);
+    }
+    
+    token.quantifier = quantifier;
+    return index + match[0].length;
+  }
+
+  /**
+   * 判断指定位置的 '[' 是否为可选组的开始
+   * 
+   * 以参数名开头（后跟 ':'、'='、说明或结束）的内容、剩余参数 `...rest`
+   * 和命名选项 `-v` 仍然解析为可选参数，其他内容视为可选组。
+   * 
+   * @param pattern - 完整的模式字符串
+   * @param startIndex - '[' 的位置
+   * @returns 是否为可选组
+   */
+  private static isGroup(pattern: string, startIndex: number): boolean {
+    const endIndex = PatternParser.findClosingBrace(pattern, startIndex);
+    const content = pattern.slice(startIndex + 1, endIndex - 1);
+    if (!content.trim()) {
+      return false;
+    }
+    return !/^\s*(\.\.\.|-|[^\s<>[\]{}()]+\s*(:|=|"|$))/.test(content);
+  }
+
+  /**
+   * 解析可选组
+   * 
+   * 可选组中的令牌作为一个整体匹配：要么全部匹配成功，
+   * 要么整个组被跳过，此时组内的参数都使用默认值。
+   * 
+   * @param pattern - 完整的模式字符串
+   * @param startIndex - '[' 的位置
+   * @param state - 解析状态
+   * @returns 可选组节点
+   * 
+   * @throws {PatternParseError} 当组内包含命名选项时抛出
+   * 
+   * @example
+   * ```typescript
+   * // ban <who:at>[ for <minutes:integer> minutes]
+   * // → group.children: [' for ', <minutes:integer>, ' minutes']
+   * ```
+   */
+  private static parseGroup(pattern: string, startIndex: number, state: ParseState): PatternAstNode {
+    const endIndex = PatternParser.findClosingBrace(pattern, startIndex);
+    const children = PatternParser.parseSequence(pattern, startIndex + 1, endIndex - 1, state);
+    
+    const option = children.find(child => child.type === 'option');
+    if (option) {
+      throw new PatternParseError('Options cannot be declared inside an optional group', pattern, option.start, option.end);
+    }
+    
+    return { type: 'group', start: startIndex, end: endIndex, children };
+  }
+
+  /**
+   * 判断指定位置的 '(' 是否为多选字面量的开始
+   * 
+   * 只有括号内包含 '|' 时才视为多选字面量，
+   * 其他情况下 '(' 仍然作为普通字面量字符，保持向后兼容。
+   * 
+   * @param pattern - 完整的模式字符串
+   * @param startIndex - '(' 的位置
+   * @returns 是否为多选字面量
+   */
+  private static isAlternation(pattern: string, startIndex: number): boolean {
+    const endIndex = indexOfUnescaped(pattern, ')', startIndex);
+    if (endIndex === -1) {
+      return false;
+    }
+    return indexOfUnescaped(pattern.slice(startIndex + 1, endIndex), '|') !== -1;
+  }
+
+  /**
+   * 解析多选字面量
+   * 
+   * 解析格式为 `(a|b|c)` 或 `(name:a|b|c)` 的多选字面量。
+   * 未命名时返回的令牌 name 为空，由调用方分配 `$1`、`$2` 等参数名。
+   * 
+   * @param pattern - 完整的模式字符串
+   * @param startIndex - 开始解析的位置（'(' 的位置）
+   * @returns 解析后的多选字面量令牌
+   * 
+   * @example
+   * ```typescript
+   * // 未命名多选字面量
+   * const token1 = PatternParser.parseAlternation('(add|remove)', 0);
+   * 
+   * // 命名多选字面量
+   * const token2 = PatternParser.parseAlternation('(action:add|remove)', 0);
+   * ```
+   */
+  private static parseAlternation(pattern: string, startIndex: number): PatternToken {
+    const endIndex = PatternParser.findClosingBrace(pattern, startIndex);
+    const content = pattern.slice(startIndex + 1, endIndex - 1); // 不包括 '(' 和 ')'
+    
+    // 第一个 '|' 之前出现的冒号表示命名
+    const colonIndex = content.indexOf(':');
+    const hasName = colonIndex !== -1 && colonIndex < indexOfUnescaped(content, '|');
+    const name = hasName ? optimizedTrim(content.slice(0, colonIndex)) : '';
+    const body = hasName ? content.slice(colonIndex + 1) : content;
+    
+    return PatternToken.createAlternation(name, splitUnescaped(body, '|').map(unescapePattern));
+  }
+
+  /**
+   * 解析带参数的数据类型
+   * 
+   * 将以下类型转换为带专属类型匹配器的参数：
+   * - 内联正则 `/source/flags` 或 `regex(source)`：dataType 为 `regex`
+   * - 枚举 `enum(a,b,c)`、`enum(a,b,c)i`（忽略大小写）或 `a|b|c`：dataType 为 `enum`
+   * 
+   * `text?`、`text~`、`text$` 设置 text 参数的匹配方式（textMode），dataType 为 `text`。
+   * 其他类型保持不变。
+   * 
+   * @param token - 参数令牌
+   * @param pattern - 完整的模式字符串（用于错误信息）
+   * @param startIndex - 参数在模式中的起始位置（用于错误信息）
+   * @returns 处理后的参数令牌
+   * 
+   * @throws {PatternParseError} 当正则表达式无效或枚举选项为空时抛出
+   * 
+   * @example
+   * ```typescript
+   * // <code:/[A-Z]{4}-\d+/> → dataType === 'regex'
+   * // <code:regex([A-Z]{4}-\d+)> → dataType === 'regex'
+   * // <mode:enum(on,off,auto)i> → dataType === 'enum'
+   * // <mode:on|off|auto> → dataType === 'enum'
+   * // <title:text?> → dataType === 'text', textMode === 'lazy'
+   * ```
+   */
+  private static resolveParameterType(token: PatternToken, pattern: string, startIndex: number): PatternToken {
+    let dataType = token.dataType || '';
+    
+    // text?、text~、text$ 形式（可带约束，如 text(len ..20)?）
+    const textForm = /^(text(?:\(.*\))?)([?~$])$/s.exec(dataType);
+    if (textForm) {
+      const [, baseType, suffix] = textForm;
+      token.textMode = (Object.keys(TEXT_MODE_SUFFIXES) as TextMode[]).find(mode => TEXT_MODE_SUFFIXES[mode] === suffix);
+      token.dataType = dataType = baseType;
+    }
+    
+    // /source/flags 形式，或 regex(source) 形式（无标志）
+    const regexForm = /^\/(.*)\/([a-z]*)$/s.exec(dataType) || /^regex\((.*)\)()$/s.exec(dataType);
+    if (regexForm) {
+      const [, source, flags] = regexForm;
+      try {
+        token.regex = new RegExp(source, flags);
+      } catch (error) {
+        throw new PatternParseError(
+          `Invalid regular expression for parameter '${token.name}': ${error instanceof Error ? error.message : String(error)}`,
+          pattern,
+          startIndex
+        );
+      }
+      token.dataType = 'regex';
+      token.matcher = new RegexTypeMatcher(token.regex);
+      return token;
+    }
+    
+    // enum(a,b,c) 形式（可带 i 后缀忽略大小写），或 a|b|c 形式
+    const enumForm = /^enum\((.*)\)(i?)$/s.exec(dataType);
+    if (enumForm || indexOfUnescaped(dataType, '|') !== -1) {
+      const choices = (enumForm ? splitUnescaped(enumForm[1], ',') : splitUnescaped(dataType, '|'))
+        .map(choice => unescapePattern(optimizedTrim(choice)))
+        .filter(choice => choice !== '');
+      if (choices.length === 0) {
+        throw new PatternParseError(
+          `Enum parameter '${token.name}' must have at least one choice`,
+          pattern,
+          startIndex
+        );
+      }
+      token.dataType = 'enum';
+      token.choices = choices;
+      token.matcher = new EnumTypeMatcher(choices, !!enumForm && enumForm[2] === 'i');
+      return token;
+    }
+    
+    // type(约束) 形式，如 integer(1..100)、word(len 2..16)、float(>0)
+    const constrainedForm = /^(\w+)\((.*)\)$/s.exec(dataType);
+    if (constrainedForm && CONSTRAINABLE_TYPES.includes(constrainedForm[1])) {
+      const [, baseType, spec] = constrainedForm;
+      token.dataType = baseType;
+      token.constraints = PatternParser.parseConstraints(spec, baseType, pattern, startIndex);
+    }
+    
+    // 类型名中不会有空白和引号，出现时通常是说明没有被正确分离
+    if (token.dataType && /[\s"']/.test(token.dataType)) {
+      throw new PatternParseError(
+        `Invalid type '${token.dataType}' for parameter '${token.name}'`,
+        pattern,
+        startIndex
       );
     }
+    
+    return token;
+  }
+
+  /**
+   * 解析参数约束
+   * 
+   * 约束之间用逗号分隔，支持以下写法：
+   * - 范围：`1..100`、`1..`、`..100`、`5`（等于 5）
+   * - 比较：`>0`、`>=0`、`<10`、`<=10`
+   * - 长度：在上述写法前加 `len`，如 `len 2..16`、`len <=200`
+   * 
+   * 数值类型（number、integer、float）只支持数值约束，
+   * word 和 text 只支持长度约束。
+   * 
+   * @param spec - 括号内的约束字符串
+   * @param baseType - 参数的数据类型
+   * @param pattern - 完整的模式字符串（用于错误信息）
+   * @param startIndex - 参数在模式中的起始位置（用于错误信息）
+   * @returns 结构化的参数约束
+   * 
+   * @throws {PatternParseError} 当约束格式错误或与类型不符时抛出
+   */
+  private static parseConstraints(spec: string, baseType: string, pattern: string, startIndex: number): ParameterConstraints {
+    const numeric = baseType !== 'word' && baseType !== 'text';
+    const constraints: ParameterConstraints = {};
+    const fail = (message: string): never => {
+      throw new PatternParseError(message, pattern, startIndex);
+    };
+    
+    for (const rawPart of spec.split(',')) {
+      let part = optimizedTrim(rawPart);
+      const isLength = part.startsWith('len');
+      if (isLength) {
+        part = optimizedTrim(part.slice(3));
+      }
+      if (isLength === numeric) {
+        fail(`${isLength ? 'Length' : 'Range'} constraint '${optimizedTrim(rawPart)}' is not supported for type '${baseType}'`);
+      }
+      
+      let min: number | undefined;
+      let max: number | undefined;
+      let exclusiveMin = false;
+      let exclusiveMax = false;
+      
+      const comparison = /^(>=|<=|>|<)\s*(-?\d+(?:\.\d+)?)$/.exec(part);
+      const range = /^(-?\d+(?:\.\d+)?)?\s*\.\.\s*(-?\d+(?:\.\d+)?)?$/.exec(part);
+      const exact = /^-?\d+(?:\.\d+)?$/.exec(part);
+      if (comparison) {
+        const bound = Number(comparison[2]);
+        if (comparison[1].startsWith('>')) {
+          min = bound;
+          exclusiveMin = comparison[1] === '>';
+        } else {
+          max = bound;
+          exclusiveMax = comparison[1] === '<';
+        }
+      } else if (range && (range[1] !== undefined || range[2] !== undefined)) {
+        min = range[1] !== undefined ? Number(range[1]) : undefined;
+        max = range[2] !== undefined ? Number(range[2]) : undefined;
+      } else if (exact) {
+        min = max = Number(part);
+      } else {
+        fail(`Invalid constraint '${optimizedTrim(rawPart)}'`);
+      }
+      
+      if (isLength) {
+        // 长度总是整数，将开区间转换为闭区间
+        if (min !== undefined) constraints.minLength = exclusiveMin ? Math.floor(min) + 1 : Math.ceil(min);
+        if (max !== undefined) constraints.maxLength = exclusiveMax ? Math.ceil(max) - 1 : Math.floor(max);
+      } else {
+        if (min !== undefined) {
+          constraints.min = min;
+          constraints.exclusiveMin = exclusiveMin;
+        }
+        if (max !== undefined) {
+          constraints.max = max;
+          constraints.exclusiveMax = exclusiveMax;
+        }
+      }
+    }
+    
+    const emptyRange = (low?: number, high?: number) => low !== undefined && high !== undefined && low > high;
+    if (emptyRange(constraints.min, constraints.max) || emptyRange(constraints.minLength, constraints.maxLength)) {
+      fail(`Constraint '${spec}' can never be satisfied`);
+    }
+    
+    // 去掉未设置的开区间标记，保持结构简洁
+    if (!constraints.exclusiveMin) delete constraints.exclusiveMin;
+    if (!constraints.exclusiveMax) delete constraints.exclusiveMax;
+    return constraints;
+  }
+
+  /**
+   * 解析运行时默认值的提供者名称
+   * 
+   * `$` 加标识符形式的默认值（如 `$sender`）在匹配时从上下文或注册的提供者中获取。
+   * 以 `$` 开头的普通字符串默认值需要转义，如 `[cur:word=\$USD]`。
+   * 
+   * @param defaultValueStr - 默认值字符串
+   * @returns 提供者名称（不含 `$`），不是运行时默认值时返回 undefined
+   * 
+   * @example
+   * ```typescript
+   * PatternParser.parseDefaultProvider('$sender'); // 'sender'
+   * PatternParser.parseDefaultProvider('42'); // undefined
+   * ```
+   */
+  private static parseDefaultProvider(defaultValueStr: string): string | undefined {
+    const match = /^\$([A-Za-z_]\w*)$/.exec(optimizedTrim(defaultValueStr));
+    return match ? match[1] : undefined;
   }
 
   /**
@@ -354,6 +1464,8 @@ export class PatternParser {
    * 
    * 解析字符串、数字、JSON 对象等类型的默认值。
    * 支持嵌套的 JSON 结构，如对象和数组。
+   * 默认值中可以使用 `\]` 等转义序列表示模式特殊字符。
+   * 双引号包裹的默认值总是字符串，引号内可以用反斜杠转义任意字符，首尾空白也会保留。
    * 
    * @param defaultValueStr - 默认值字符串
    * @returns 解析后的默认值
@@ -366,6 +1478,9 @@ export class PatternParser {
    * // 数字默认值
    * PatternParser.parseDefaultValue('42'); // 42
    * 
+   * // 加引号的字符串默认值
+   * PatternParser.parseDefaultValue('"42"'); // '42'
+   * 
    * // JSON 对象默认值
    * PatternParser.parseDefaultValue('{"id":1,"name":"test"}'); // {id: 1, name: "test"}
    * 
@@ -374,7 +1489,13 @@ export class PatternParser {
    * ```
    */
   private static parseDefaultValue(defaultValueStr: string): any {
-    const trimmed = optimizedTrim(defaultValueStr);
+    const quoted = /^"((?:[^"\\]|\\.)*)"$/s.exec(optimizedTrim(defaultValueStr));
+    if (quoted) {
+      return unquote(quoted[1]);
+    }
+    
+    // 先去除模式转义（如 '\]'），再按 JSON、数字、布尔值、字符串的顺序解析
+    const trimmed = unescapePattern(optimizedTrim(defaultValueStr));
     
     // 尝试解析为 JSON
     if ((trimmed.startsWith('{') && trimmed.endsWith('}')) ||
@@ -414,10 +1535,12 @@ export class PatternParser {
    * 解析普通字面量
    * 
    * 解析连续的普通字符作为字面量令牌。
-   * 遇到特殊字符（'{', '<', '['）时停止解析。
+   * 遇到特殊字符（'{', '<', '['）或多选字面量的 '(' 时停止解析。
+   * 使用反斜杠转义的特殊字符（如 `\[`、`\<`）作为普通字符处理。
    * 
    * @param pattern - 完整的模式字符串
    * @param startIndex - 开始解析的位置
+   * @param endIndex - 结束解析的位置（不包含，默认为模式末尾）
    * @returns 解析结果，包含令牌和新的解析位置
    * 
    * @example
@@ -429,20 +1552,34 @@ export class PatternParser {
    * // 解析包含空格的字面量
    * const result2 = PatternParser.parseLiteral('hello world <name>', 0);
    * // result2.token.value === 'hello world ', result2.newIndex === 12
+   * 
+   * // 解析转义的特殊字符
+   * const result3 = PatternParser.parseLiteral('set \\[x\\] <v>', 0);
+   * // result3.token.value === 'set [x] '
    * ```
    */
-  private static parseLiteral(pattern: string, startIndex: number): { token: PatternToken | null; newIndex: number } {
+  private static parseLiteral(pattern: string, startIndex: number, endIndex: number = pattern.length): { token: PatternToken | null; newIndex: number } {
     let i = startIndex;
     let literal = '';
     
     // 收集连续的普通字符
-    while (i < pattern.length) {
+    while (i < endIndex) {
       const char = pattern[i];
       
+      // 反斜杠转义：将下一个特殊字符作为普通字符
+      if (char === '\\' && i + 1 < endIndex && ESCAPABLE_CHARS.includes(pattern[i + 1])) {
+        literal += pattern[i + 1];
+        i += 2;
+        continue;
+      }
+      
       // 遇到特殊字符时停止
       if (char === '{' || char === '<' || char === '[') {
         break;
       }
+      if (char === '(' && PatternParser.isAlternation(pattern, i)) {
+        break;
+      }
       
       literal += char;
       i++;
@@ -467,13 +1604,15 @@ export class PatternParser {
    * 查找匹配的闭合括号
    * 
    * 从指定的开始位置查找匹配的闭合括号。
-   * 支持嵌套的括号结构，如 `{[...]}`。
+   * 支持嵌套的括号结构，如 `{[...]}`，并跳过反斜杠转义的字符。
+   * 参数类型位置的内联正则表达式（如 `<code:/a>b/>`）和双引号包裹的说明（如 `"must be > 0"`）
+   * 整体跳过，其中的括号不参与配对。没有配对的双引号按普通字符处理。
    * 
    * @param pattern - 完整的模式字符串
    * @param startIndex - 开始位置（开括号的位置）
    * @returns 闭合括号的位置
    * 
-   * @throws {PatternParseError} 当找不到匹配的闭合括号时抛出
+   * @throws {PatternParseError} 当找不到匹配的闭合括号或内联正则表达式没有结束斜杠时抛出
    * 
    * @example
    * ```typescript
@@ -486,14 +1625,48 @@ export class PatternParser {
    */
   private static findClosingBrace(pattern: string, startIndex: number): number {
     const openChar = pattern[startIndex];
-    const closeChar = openChar === '{' ? '}' : openChar === '<' ? '>' : ']';
+    const closeChar = openChar === '{' ? '}' : openChar === '<' ? '>' : openChar === '(' ? ')' : ']';
+    // 参数的类型参数（如 integer(1..100)、float(>0)）写在圆括号内，其中的 '>' 不视为闭合
+    const trackParens = openChar === '<' || openChar === '[';
+    let parenDepth = 0;
     let depth = 0;
     let i = startIndex;
     
     while (i < pattern.length) {
       const char = pattern[i];
       
-      if (char === openChar) {
+      if (char === '\\') {
+        // 跳过转义字符
+        i += 2;
+        continue;
+      }
+      
+      if (trackParens && char === '/' && pattern[i - 1] === ':' && depth === 1 && parenDepth === 0) {
+        // 跳过内联正则表达式，其中的 '>'、']'、'(' 等字符不参与括号配对
+        const regexEnd = findRegexEnd(pattern, i);
+        if (regexEnd === -1) {
+          throw new PatternParseError(`Unterminated regular expression at position ${i}`, pattern, i, pattern.length);
+        }
+        i = regexEnd + 1;
+        continue;
+      }
+      
+      if (char === '"' && (trackParens || (openChar === '{' && pattern[i - 1] === '='))) {
+        // 跳过说明、示例、字段值等引号字符串
+        const quoteEnd = indexOfUnescaped(pattern, '"', i + 1);
+        if (quoteEnd !== -1) {
+          i = quoteEnd + 1;
+          continue;
+        }
+      }
+      
+      if (trackParens && char === '(') {
+        parenDepth++;
+      } else if (trackParens && char === ')' && parenDepth > 0) {
+        parenDepth--;
+      } else if (parenDepth > 0) {
+        // 圆括号内的字符不参与括号配对
+      } else if (char === openChar) {
         depth++;
       } else if (char === closeChar) {
         depth--;
@@ -509,7 +1682,8 @@ export class PatternParser {
     throw new PatternParseError(
       `Unmatched opening brace '${openChar}' at position ${startIndex}`,
       pattern,
-      startIndex
+      startIndex,
+      pattern.length
     );
   }
 } 
\ No newline at end of file
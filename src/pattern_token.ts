@@ -1,4 +1,5 @@
-import { PatternToken as IPatternToken, TokenType } from './types';
+import { PatternToken as IPatternToken, TokenType, ParameterConstraints, Quantifier, TypedLiteralField, TextMode } from './types';
+import { TypeMatcher } from './type_matchers';
 
 /**
  * 模式令牌类
@@ -19,10 +20,13 @@ import { PatternToken as IPatternToken, TokenType } from './types';
  * 
  * // 创建剩余参数令牌
  * const restToken = PatternToken.createRestParameter('rest', 'text');
+ * 
+ * // 创建多选字面量令牌
+ * const altToken = PatternToken.createAlternation('action', ['add', 'remove']);
  * ```
  */
 export class PatternToken implements IPatternToken {
-  /** 令牌类型：literal | typed_literal | parameter | rest_parameter */
+  /** 令牌类型：literal | typed_literal | parameter | rest_parameter | alternation */
   type: TokenType;
   
   /** 字面量值（仅用于 literal 类型） */
@@ -31,7 +35,7 @@ export class PatternToken implements IPatternToken {
   /** 消息段类型（仅用于 typed_literal 类型） */
   segmentType?: string;
   
-  /** 参数名称（仅用于 parameter 和 rest_parameter 类型） */
+  /** 参数名称（用于 parameter、rest_parameter 和 alternation 类型） */
   name?: string;
   
   /** 数据类型（仅用于 parameter 和 rest_parameter 类型） */
@@ -42,6 +46,48 @@ export class PatternToken implements IPatternToken {
   
   /** 默认值（仅用于可选参数） */
   defaultValue?: any;
+  
+  /** 可选的字面量列表（仅用于 alternation 类型） */
+  alternatives?: string[];
+  
+  /** 内联正则表达式（用于 regex 类型参数，以及由通配符编译而来的类型化字面量） */
+  regex?: RegExp;
+  
+  /** 允许的选项列表（仅用于 enum 类型参数） */
+  choices?: string[];
+  
+  /** 参数约束（数值范围或长度范围） */
+  constraints?: ParameterConstraints;
+  
+  /** 选项的全部写法，如 `['-n', '--count']`（仅用于 option 类型） */
+  optionNames?: string[];
+  
+  /** 组内的子令牌（仅用于 group 类型） */
+  children?: PatternToken[];
+  
+  /** 重复量词（仅用于必需参数和类型化字面量） */
+  quantifier?: Quantifier;
+  
+  /** 参数专属的类型匹配器（优先于全局注册的匹配器） */
+  matcher?: TypeMatcher;
+  
+  /** 参数说明，用于生成帮助信息（用于参数、剩余参数和命名选项） */
+  description?: string;
+  
+  /** 参数示例值，用于生成用法信息（用于参数、剩余参数和命名选项） */
+  example?: string;
+  
+  /** 运行时默认值的提供者名称，如 `[who:at=$sender]` 中的 `sender`（用于可选参数和命名选项） */
+  defaultProvider?: string;
+  
+  /** text 参数的匹配方式，未设置时为贪婪匹配（仅用于 text 类型参数） */
+  textMode?: TextMode;
+  
+  /** text~ 参数的结束分隔符，由解析器设置为紧随其后的字面量 */
+  delimiter?: string;
+  
+  /** 消息段数据的字段约束，如 `{image file=a.png sub_type=1}`（仅用于 typed_literal 类型） */
+  fields?: TypedLiteralField[];
 
   /**
    * 构造函数
@@ -153,4 +199,72 @@ export class PatternToken implements IPatternToken {
   static createRestParameter(name: string, dataType: string | null): PatternToken {
     return new PatternToken('rest_parameter', { name, dataType });
   }
-} 
\ No newline at end of file
+
+  /**
+   * 创建多选字面量令牌
+   * 
+   * 用于表示 `(add|remove|list)` 这样的多选字面量。
+   * 匹配时任意一个候选字面量匹配即可，匹配到的候选值会以参数形式记录。
+   * 
+   * @param name - 记录匹配结果的参数名称
+   * @param alternatives - 候选字面量列表
+   * @returns 多选字面量令牌实例
+   * 
+   * @example
+   * ```typescript
+   * const token = PatternToken.createAlternation('action', ['add', 'remove', 'list']);
+   * // token.type === 'alternation'
+   * // token.alternatives === ['add', 'remove', 'list']
+   * ```
+   */
+  static createAlternation(name: string, alternatives: string[]): PatternToken {
+    return new PatternToken('alternation', { name, alternatives });
+  }
+
+  /**
+   * 创建命名选项令牌
+   * 
+   * 用于表示 `[-v|--verbose]`、`[-n|--count:integer=5]` 这样的命令行风格选项。
+   * 选项可以出现在命令字面量之后的任意位置，不参与位置参数的匹配。
+   * 没有数据类型的选项为布尔开关，出现时值为 true。
+   * 
+   * @param name - 参数名称
+   * @param optionNames - 选项的全部写法（含 `-` 或 `--` 前缀）
+   * @param dataType - 选项值的数据类型（null 表示布尔开关）
+   * @param optional - 是否为可选选项
+   * @param defaultValue - 默认值（可选）
+   * @returns 命名选项令牌实例
+   * 
+   * @example
+   * ```typescript
+   * const flag = PatternToken.createOption('verbose', ['-v', '--verbose'], null, true, false);
+   * const count = PatternToken.createOption('count', ['-n', '--count'], 'integer', true, 5);
+   * ```
+   */
+  static createOption(name: string, optionNames: string[], dataType: string | null, optional: boolean, defaultValue?: any): PatternToken {
+    return new PatternToken('option', { name, optionNames, dataType, optional, defaultValue });
+  }
+
+  /**
+   * 创建可选组令牌
+   * 
+   * 用于表示 `[ for <minutes:integer> minutes]` 这样包含多个令牌的可选序列。
+   * 组内的令牌作为一个整体匹配，组被跳过时组内参数使用默认值。
+   * 
+   * @param children - 组内的子令牌
+   * @returns 可选组令牌实例
+   * 
+   * @example
+   * ```typescript
+   * const token = PatternToken.createGroup([
+   *   PatternToken.createLiteral(' for '),
+   *   PatternToken.createParameter('minutes', 'integer', false)
+   * ]);
+   * // token.type === 'group'
+   * // token.optional === true
+   * ```
+   */
+  static createGroup(children: PatternToken[]): PatternToken {
+    return new PatternToken('group', { children, optional: true });
+  }
+}
\ No newline at end of file
@@ -1,10 +1,12 @@
-import { MessageSegment } from './types';
+import { MessageSegment, MatchFailure, DetailedMatchResult, SearchResult, SegmentMatcherOptions, DefaultValueContext } from './types';
 import { PatternToken } from './pattern_token';
 import { PatternParser } from './pattern_parser';
 import { BasicMatcher } from './basic_matcher';
 import { MatchResult } from './match_result';
-import { ValidationError } from './errors';
-import { FieldMappingConfig } from './field_mapping';
+import { ValidationError, PatternParseError } from './errors';
+import { lintPattern } from './pattern_linter';
+import { normalizeSegments, restoreSegments } from './normalization';
+import { FieldMappingConfig, getSegmentType } from './field_mapping';
 
 /**
  * 快速参数验证
@@ -34,6 +36,9 @@ export class SegmentMatcher {
   
   /** 类型化字面量的字段映射配置 */
   private typedLiteralFields: FieldMappingConfig;
+  
+  /** 匹配器选项 */
+  private options: SegmentMatcherOptions;
 
   /**
    * 默认的类型化字面量字段映射规则
@@ -51,8 +56,8 @@ export class SegmentMatcher {
     at: 'user_id',
   };
 
-  static create(pattern: string, typedLiteralFields: FieldMappingConfig={...SegmentMatcher.DEFAULT_TYPED_LITERAL_FIELD_MAP}): SegmentMatcher {
-    return new SegmentMatcher(pattern, typedLiteralFields);
+  static create(pattern: string, typedLiteralFields: FieldMappingConfig={...SegmentMatcher.DEFAULT_TYPED_LITERAL_FIELD_MAP}, options: SegmentMatcherOptions = {}): SegmentMatcher {
+    return new SegmentMatcher(pattern, typedLiteralFields, options);
   }
 
   /**
@@ -60,8 +65,10 @@ export class SegmentMatcher {
    * 
    * @param pattern - 命令模式字符串，定义匹配规则
    * @param typedLiteralFields - 自定义的类型化字面量字段映射（可选）
+   * @param options - 匹配器选项（可选）
    * 
    * @throws {ValidationError} 当模式为空或格式错误时抛出
+   * @throws {PatternParseError} 当启用 strict 且模式检查发现错误时抛出
    * 
    * @example
    * ```typescript
@@ -72,9 +79,21 @@ export class SegmentMatcher {
    * const customSegmentMatcher = new SegmentMatcher('{image:avatar.png}<name:text>', {
    *   image: 'src'  // 使用 'src' 字段而不是默认的 'file' 或 'url'
    * });
+   * 
+   * // 忽略字面量大小写：'Help' 也可以匹配
+   * new SegmentMatcher('help [topic:word]', undefined, { caseInsensitive: true });
+   * 
+   * // 宽松的空白策略：多个空格、制表符和全角空格都可以匹配模式中的空格
+   * new SegmentMatcher('add <a:number> <b:number>', undefined, { whitespace: 'lenient' });
+   * 
+   * // 规范化全角字符：'！roll １２' 也可以匹配
+   * new SegmentMatcher('!roll <n:integer>', undefined, { normalize: true });
+   * 
+   * // 严格模式：模式中存在无法匹配的元素时直接报错
+   * new SegmentMatcher('add [...items] <n:number>', undefined, { strict: true }); // 抛出 PatternParseError
    * ```
    */
-  constructor(public pattern: string, typedLiteralFields: FieldMappingConfig={...SegmentMatcher.DEFAULT_TYPED_LITERAL_FIELD_MAP}) {
+  constructor(public pattern: string, typedLiteralFields: FieldMappingConfig={...SegmentMatcher.DEFAULT_TYPED_LITERAL_FIELD_MAP}, options: SegmentMatcherOptions = {}) {
     // 参数验证：确保模式是有效的字符串
     if (typeof pattern !== 'string') {
       throw new ValidationError('Pattern must be a string', 'pattern', pattern);
@@ -88,7 +107,17 @@ export class SegmentMatcher {
     if (typedLiteralFields && typeof typedLiteralFields !== 'object') {
       throw new ValidationError('typedLiteralFields must be an object', 'typedLiteralFields', typedLiteralFields);
     }
-    this.tokens = PatternParser.parse(pattern);
+    this.tokens = PatternParser.parse(pattern, options);
+    
+    // 严格模式：拒绝模式检查发现错误的模式
+    if (options.strict) {
+      const error = lintPattern(pattern).find(diagnostic => diagnostic.severity === 'error');
+      if (error) {
+        throw new PatternParseError(`${error.message} (${error.code})`, pattern, error.start, error.end);
+      }
+    }
+    
+    this.options = { ...options };
     
     // 合并默认字段映射和自定义字段映射
     // 自定义映射会覆盖默认映射
@@ -100,13 +129,234 @@ export class SegmentMatcher {
   /**
    * 匹配消息段
    * 
+   * @param segments - 消息段数组
+   * @param context - 运行时默认值的上下文（可选），如 `{ sender: 123 }` 用于 `[who:at=$sender]`
    */
-  match(segments: MessageSegment[]): MatchResult|null {
+  match(segments: MessageSegment[], context?: DefaultValueContext): MatchResult|null {
     // 快速参数验证
     if (!fastValidateSegments(segments)) {
       throw new ValidationError('Segments must be an array', 'segments', segments);
     }
-    return BasicMatcher.match(this.tokens, segments, this.typedLiteralFields);
+    return this.matchSegments(segments, undefined, context);
+  }
+
+  /**
+   * 匹配消息段并返回失败原因
+   * 
+   * 与 match 相同，但匹配失败时会说明原因，
+   * 例如参数值不满足约束时返回 `n must be between 1 and 100`。
+   * 
+   * @param segments - 消息段数组
+   * @param context - 运行时默认值的上下文（可选）
+   * @returns 匹配结果和失败原因（匹配成功或原因未知时 failure 为 null）
+   * 
+   * @throws {ValidationError} 当消息段不是数组时抛出
+   * 
+   * @example
+   * ```typescript
+   * const matcher = new SegmentMatcher('roll <n:integer(1..100)>');
+   * const { result, failure } = matcher.matchDetailed([{ type: 'text', data: { text: 'roll 150' } }]);
+   * // result === null
+   * // failure.reason === 'constraint_violation'
+   * // failure.message === 'n must be between 1 and 100'
+   * ```
+   */
+  matchDetailed(segments: MessageSegment[], context?: DefaultValueContext): DetailedMatchResult {
+    if (!fastValidateSegments(segments)) {
+      throw new ValidationError('Segments must be an array', 'segments', segments);
+    }
+    const failures: MatchFailure[] = [];
+    const result = this.matchSegments(segments, failures, context);
+    if (result) {
+      return { result, failure: null };
+    }
+    
+    // 约束、默认值和剩余消息段的失败比回溯中记录的输入不符更具体
+    const specific = failures.find(failure => failure.reason === 'constraint_violation' || failure.reason === 'invalid_default' || failure.reason === 'unmatched_remaining');
+    return { result, failure: specific || failures[0] || null };
+  }
+
+  /**
+   * 说明消息段为什么不匹配
+   * 
+   * 返回 matchDetailed 的失败信息。输入与模式不符时，失败信息包含进展最远的令牌位置（tokenIndex）、
+   * 期望的内容（expected）、实际遇到的内容（found）和之前已经匹配的消息段（matched），
+   * 可以直接用于回复用户。
+   * 
+   * @param segments - 消息段数组
+   * @param context - 运行时默认值的上下文（可选）
+   * @returns 失败信息，匹配成功（或原因未知）时返回 null
+   * 
+   * @throws {ValidationError} 当消息段不是数组时抛出
+   * 
+   * @example
+   * ```typescript
+   * const matcher = new SegmentMatcher('buy <count:number> <item:word>');
+   * const failure = matcher.explain([{ type: 'text', data: { text: 'buy abc apples' } }]);
+   * // failure.reason === 'unexpected_input'
+   * // failure.tokenIndex === 2
+   * // failure.message === "Expected a number for <count>, got 'abc'"
+   * ```
+   */
+  explain(segments: MessageSegment[], context?: DefaultValueContext): MatchFailure | null {
+    return this.matchDetailed(segments, context).failure;
+  }
+
+  /**
+   * 列出消息段的所有有效解析
+   * 
+   * 用于发现有歧义的命令并显式选择最合适的解释。只返回消耗输入最多的解析，
+   * text 参数只捕获一部分前缀、留下更多剩余内容的解析不会返回。结果按以下规则排序，规则相同时保持回溯顺序：
+   * 1. 使用默认值的参数越少越靠前
+   * 2. 字面量匹配的文本越长越靠前
+   * 
+   * 参数和剩余消息段都相同的解析只保留一个。第一个结果不一定与 match() 的结果相同。
+   * 
+   * @param segments - 消息段数组
+   * @param context - 运行时默认值的上下文（可选）
+   * @returns 按排序规则排列的匹配结果，没有有效解析时返回空数组
+   * 
+   * @throws {ValidationError} 当消息段不是数组时抛出
+   * 
+   * @example
+   * ```typescript
+   * const matcher = new SegmentMatcher('[a:number][b:text]');
+   * const results = matcher.matchAll([{ type: 'text', data: { text: '12 34' } }]);
+   * // results.length > 1 表示命令有歧义
+   * // results[0].params: { a: 12, b: ' 34' }
+   * ```
+   */
+  matchAll(segments: MessageSegment[], context?: DefaultValueContext): MatchResult[] {
+    if (!fastValidateSegments(segments)) {
+      throw new ValidationError('Segments must be an array', 'segments', segments);
+    }
+    
+    if (!this.options.normalize) {
+      return BasicMatcher.matchAll(this.tokens, segments, this.typedLiteralFields, this.options, context);
+    }
+    
+    const results = BasicMatcher.matchAll(this.tokens, normalizeSegments(segments), this.typedLiteralFields, this.options, context);
+    if (!this.options.normalizeRemaining) {
+      results.forEach(result => {
+        result.remaining = restoreSegments(result.remaining, segments);
+      });
+    }
+    return results;
+  }
+
+  /**
+   * 在消息中的任意位置查找模式
+   * 
+   * 依次从每个消息段、每个文本段中的每个字符处尝试匹配，返回第一个匹配，
+   * 适用于关键词触发的功能（如消息中任意位置的 `remind me in <d:number> min`）。
+   * 不消耗任何消息段的匹配（如全部元素都是可选的）会被忽略。
+   * 
+   * @param segments - 消息段数组
+   * @param context - 运行时默认值的上下文（可选）
+   * @returns 匹配之前的消息段、匹配结果和匹配之后的消息段，找不到时返回 null
+   * 
+   * @throws {ValidationError} 当消息段不是数组时抛出
+   * 
+   * @example
+   * ```typescript
+   * const matcher = new SegmentMatcher('remind me in <n:integer> min');
+   * const found = matcher.search([{ type: 'text', data: { text: 'ok, remind me in 5 min please' } }]);
+   * // found.prefix: [{ type: 'text', data: { text: 'ok, ' } }]
+   * // found.result.params: { n: 5 }
+   * // found.suffix: [{ type: 'text', data: { text: ' please' } }]
+   * ```
+   */
+  search(segments: MessageSegment[], context?: DefaultValueContext): SearchResult | null {
+    if (!fastValidateSegments(segments)) {
+      throw new ValidationError('Segments must be an array', 'segments', segments);
+    }
+    return this.searchSegments(segments, context);
+  }
+
+  /**
+   * 在消息中查找模式的所有不重叠的匹配
+   * 
+   * 每次匹配之后从剩余的消息段继续查找。
+   * 每个结果的 prefix 为上一个匹配（或消息开头）与本次匹配之间的消息段，
+   * suffix 为本次匹配之后的全部消息段。
+   * 
+   * @param segments - 消息段数组
+   * @param context - 运行时默认值的上下文（可选）
+   * @returns 按出现顺序排列的搜索结果，找不到时返回空数组
+   * 
+   * @throws {ValidationError} 当消息段不是数组时抛出
+   */
+  searchAll(segments: MessageSegment[], context?: DefaultValueContext): SearchResult[] {
+    if (!fastValidateSegments(segments)) {
+      throw new ValidationError('Segments must be an array', 'segments', segments);
+    }
+    
+    const results: SearchResult[] = [];
+    let found = this.searchSegments(segments, context);
+    while (found) {
+      results.push(found);
+      found = this.searchSegments(found.suffix, context);
+    }
+    return results;
+  }
+
+  /**
+   * 执行搜索
+   * 
+   * @param segments - 消息段数组
+   * @param context - 运行时默认值的上下文（可选）
+   * @returns 第一个消耗了消息段的匹配，找不到时返回 null
+   */
+  private searchSegments(segments: MessageSegment[], context?: DefaultValueContext): SearchResult | null {
+    for (let index = 0; index < segments.length; index++) {
+      const segment = segments[index];
+      const text = getSegmentType(segment) === 'text' && typeof segment.data?.text === 'string' ? segment.data.text : '';
+      
+      // 文本段按字符（而不是 UTF-16 码元）拆分出起始位置
+      const offsets = [0];
+      for (const char of Array.from(text).slice(0, -1)) {
+        offsets.push(offsets[offsets.length - 1] + char.length);
+      }
+      
+      for (const offset of offsets) {
+        const prefix = segments.slice(0, index);
+        const rest = segments.slice(index);
+        if (offset > 0) {
+          prefix.push({ ...segment, data: { ...segment.data, text: text.substring(0, offset) } });
+          rest[0] = { ...segment, data: { ...segment.data, text: text.substring(offset) } };
+        }
+        
+        const result = this.matchSegments(rest, undefined, context);
+        if (result && result.matched.length > 0) {
+          return { prefix, result, suffix: result.remaining };
+        }
+      }
+    }
+    
+    return null;
+  }
+
+  /**
+   * 执行匹配
+   * 
+   * 启用 normalize 时先规范化文本段再匹配，
+   * 并将剩余消息段还原为原始文本（除非启用 normalizeRemaining）。
+   * 
+   * @param segments - 消息段数组
+   * @param failures - 收集匹配失败信息的数组（可选）
+   * @param context - 运行时默认值的上下文（可选）
+   * @returns 匹配结果或 null（匹配失败时）
+   */
+  private matchSegments(segments: MessageSegment[], failures?: MatchFailure[], context?: DefaultValueContext): MatchResult | null {
+    if (!this.options.normalize) {
+      return BasicMatcher.match(this.tokens, segments, this.typedLiteralFields, failures, this.options, context);
+    }
+    
+    const result = BasicMatcher.match(this.tokens, normalizeSegments(segments), this.typedLiteralFields, failures, this.options, context);
+    if (result && !this.options.normalizeRemaining) {
+      result.remaining = restoreSegments(result.remaining, segments);
+    }
+    return result;
   }
   /**
    * 获取解析后的模式令牌
@@ -134,6 +384,7 @@ export class SegmentMatcher {
  * 
  * @param pattern - 命令模式字符串
  * @param typedLiteralFields - 自定义的类型化字面量字段映射（可选）
+ * @param options - 匹配器选项（可选）
  * @returns 新创建的 SegmentMatcher 实例
  * 
  * @example
@@ -145,6 +396,6 @@ export class SegmentMatcher {
  * const matcher = new SegmentMatcher('hello <name:text>');
  * ```
  */
-export function createMatcher(pattern: string, typedLiteralFields?: FieldMappingConfig): SegmentMatcher {
-  return SegmentMatcher.create(pattern, typedLiteralFields);
+export function createMatcher(pattern: string, typedLiteralFields?: FieldMappingConfig, options?: SegmentMatcherOptions): SegmentMatcher {
+  return SegmentMatcher.create(pattern, typedLiteralFields, options);
 } 
\ No newline at end of file
@@ -13,6 +13,17 @@ export interface TypeMatcher {
    * @returns 匹配结果，包含是否成功和转换后的值
    */
   match(text: string): TypeMatchResult;
+
+  /**
+   * 匹配输入文本的前缀（可选）
+   * 
+   * 实现此方法的匹配器可以从文本段开头截取一部分作为参数值，
+   * 剩余文本留给后续令牌匹配。
+   * 
+   * @param text - 输入的文本内容
+   * @returns 匹配结果，成功时 length 为匹配的前缀长度
+   */
+  matchPrefix?(text: string): TypeMatchResult;
 }
 
 /**
@@ -23,6 +34,8 @@ export interface TypeMatchResult {
   success: boolean;
   /** 转换后的值（仅在成功时存在） */
   value?: any;
+  /** 匹配的前缀长度（仅前缀匹配成功时存在） */
+  length?: number;
 }
 
 /**
@@ -139,6 +152,95 @@ export class TextTypeMatcher implements TypeMatcher {
   }
 }
 
+/**
+ * 正则表达式类型匹配器
+ * 
+ * 用于 `<code:/[A-Z]{4}-\d+/>` 或 `<code:regex([A-Z]{4}-\d+)>` 这样的内联正则参数。
+ * 匹配成功时返回完整匹配文本和命名捕获组：`{ match, groups }`。
+ */
+export class RegexTypeMatcher implements TypeMatcher {
+  /** 整体匹配使用的正则（首尾锚定） */
+  private readonly fullRegex: RegExp;
+  
+  /** 前缀匹配使用的粘连正则 */
+  private readonly prefixRegex: RegExp;
+
+  /**
+   * 构造函数
+   * 
+   * @param regex - 参数使用的正则表达式（g、y 标志会被忽略）
+   */
+  constructor(public readonly regex: RegExp) {
+    const flags = regex.flags.replace(/[gy]/g, '');
+    this.fullRegex = new RegExp(`^(?:${regex.source})$`, flags);
+    this.prefixRegex = new RegExp(regex.source, `${flags}y`);
+  }
+
+  match(text: string): TypeMatchResult {
+    const result = this.fullRegex.exec(text);
+    if (!result) {
+      return { success: false };
+    }
+
+    return { success: true, value: { match: result[0], groups: { ...result.groups } } };
+  }
+
+  matchPrefix(text: string): TypeMatchResult {
+    this.prefixRegex.lastIndex = 0;
+    const result = this.prefixRegex.exec(text);
+    // 空匹配视为失败，避免参数不消耗任何文本
+    if (!result || !result[0]) {
+      return { success: false };
+    }
+
+    return {
+      success: true,
+      value: { match: result[0], groups: { ...result.groups } },
+      length: result[0].length
+    };
+  }
+}
+
+/**
+ * 枚举类型匹配器
+ * 
+ * 用于 `<mode:enum(on,off,auto)>` 或 `<mode:on|off|auto>` 这样的选项参数。
+ * 只有输入为列出的选项之一时才匹配成功，并返回规范写法的选项。
+ * 支持：on, off, auto（忽略大小写时也支持 ON, Auto 等）
+ */
+export class EnumTypeMatcher implements TypeMatcher {
+  /** 用于查找的选项表（键为比较用的写法，值为规范写法） */
+  private readonly lookup: Map<string, string>;
+
+  /**
+   * 构造函数
+   * 
+   * @param choices - 允许的选项列表
+   * @param caseInsensitive - 是否忽略大小写
+   */
+  constructor(public readonly choices: string[], public readonly caseInsensitive: boolean = false) {
+    this.lookup = new Map(choices.map(choice => [this.normalize(choice), choice]));
+  }
+
+  match(text: string): TypeMatchResult {
+    // 缺少文本的消息段（如 `data: {}`）视为不匹配
+    if (typeof text !== 'string') {
+      return { success: false };
+    }
+
+    const choice = this.lookup.get(this.normalize(text));
+    if (choice === undefined) {
+      return { success: false };
+    }
+
+    return { success: true, value: choice };
+  }
+
+  private normalize(text: string): string {
+    return this.caseInsensitive ? text.toLowerCase() : text;
+  }
+}
+
 /**
  * 类型匹配器注册表
  * 
@@ -1,3 +1,5 @@
+import { TypeMatcher } from './type_matchers';
+
 
 // 消息段接口
 export interface MessageSegment {
@@ -5,8 +7,8 @@ export interface MessageSegment {
   data: Record<string, any>;
 }
 
-// 模式令牌类型: literal 字面量, typed_literal 类型字面量, parameter 参数, rest_parameter 剩余参数
-export type TokenType = 'literal' | 'typed_literal' | 'parameter' | 'rest_parameter';
+// 模式令牌类型: literal 字面量, typed_literal 类型字面量, parameter 参数, rest_parameter 剩余参数, alternation 多选字面量, option 命名选项, group 可选组
+export type TokenType = 'literal' | 'typed_literal' | 'parameter' | 'rest_parameter' | 'alternation' | 'option' | 'group';
 
 // 模式令牌接口
 export interface PatternToken {
@@ -17,6 +19,56 @@ export interface PatternToken {
   dataType?: string | null;
   optional?: boolean;
   defaultValue?: any;
+  alternatives?: string[];
+  regex?: RegExp;
+  choices?: string[];
+  constraints?: ParameterConstraints;
+  optionNames?: string[];
+  children?: PatternToken[];
+  quantifier?: Quantifier;
+  matcher?: TypeMatcher;
+  description?: string;
+  example?: string;
+  fields?: TypedLiteralField[];
+  defaultProvider?: string;
+  textMode?: TextMode;
+  delimiter?: string;
+}
+
+// text 参数的匹配方式: lazy 尽量少（text?）, until 到下一个字面量为止（text~）, line 到行尾为止（text$）
+export type TextMode = 'lazy' | 'until' | 'line';
+
+// 类型化字面量的字段约束: value 为通配符写法（`*` 匹配任意字符串，`\*` 为字面量星号），regex 为编译后的正则
+export interface TypedLiteralField {
+  key: string;
+  value: string;
+  regex: RegExp;
+}
+
+// 模式语法树节点接口: start/end 为节点在模式字符串中的起止位置（end 不包含）
+// 叶子节点通过 token 携带令牌，sequence（根节点）和 group 节点通过 children 携带子节点
+export interface PatternAstNode {
+  type: 'sequence' | TokenType;
+  start: number;
+  end: number;
+  token?: PatternToken;
+  children?: PatternAstNode[];
+}
+
+// 重复量词接口: 最少和最多重复次数（max 未设置表示不限）
+export interface Quantifier {
+  min: number;
+  max?: number;
+}
+
+// 参数约束接口: 数值范围（min/max）和长度范围（minLength/maxLength）
+export interface ParameterConstraints {
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+  exclusiveMax?: boolean;
+  minLength?: number;
+  maxLength?: number;
 }
 
 // 匹配结果接口
@@ -31,5 +83,88 @@ export interface MatchResponse {
   success: boolean;
   matched?: MessageSegment[];
   param?: { name: string; value: any };
+  children?: MatchResponse[];
   newSegmentIndex?: number;
 }
+
+// 匹配失败原因: constraint_violation 参数值不满足约束, unmatched_remaining 完整匹配模式下有未匹配的剩余消息段,
+// unexpected_input 输入与令牌不符, missing_input 令牌需要输入但消息已经结束,
+// invalid_default 运行时默认值（如 `$sender`）与参数的类型或约束不符，或找不到该名称
+export type MatchFailureReason = 'constraint_violation' | 'unmatched_remaining' | 'unexpected_input' | 'missing_input' | 'invalid_default';
+
+// 匹配失败信息接口: token 为导致失败的令牌（unmatched_remaining 没有对应的令牌）
+// unexpected_input 和 missing_input 还包含: tokenIndex 令牌在 getTokens() 中的位置, expected 期望的内容,
+// found 实际遇到的内容, matched 失败之前已经匹配的消息段
+export interface MatchFailure {
+  reason: MatchFailureReason;
+  token?: PatternToken;
+  value?: any;
+  message: string;
+  tokenIndex?: number;
+  expected?: string;
+  found?: string;
+  matched?: MessageSegment[];
+}
+
+// 运行时默认值的上下文: 传给 match() 的对象，如 `{ sender: 123 }`
+export type DefaultValueContext = Record<string, unknown>;
+
+// 运行时默认值提供者: 根据匹配上下文计算默认值
+export type DefaultValueProvider = (context: DefaultValueContext) => unknown;
+
+// 详细匹配结果接口: 匹配失败时 result 为 null，failure 说明失败原因（如果可以确定）
+export interface DetailedMatchResult {
+  result: MatchResult | null;
+  failure: MatchFailure | null;
+}
+
+// 搜索结果接口: prefix 为匹配之前的消息段，suffix 为匹配之后的消息段（与 result.remaining 相同）
+export interface SearchResult {
+  prefix: MessageSegment[];
+  result: MatchResult;
+  suffix: MessageSegment[];
+}
+
+// 模式检查问题级别: error 模式无法按预期匹配, warning 模式可以匹配但可能有歧义
+export type LintSeverity = 'error' | 'warning';
+
+// 模式检查问题代码:
+// parse_error 模式无法解析, duplicate_name 参数名重复, rest_not_last 剩余参数之后还有元素,
+// invalid_default 默认值与类型或约束不符, ambiguous_text 贪婪文本参数之后紧跟必需参数,
+// unreachable_optional 贪婪文本参数之后的可选参数永远得不到值
+export type LintCode = 'parse_error' | 'duplicate_name' | 'rest_not_last' | 'invalid_default' | 'ambiguous_text' | 'unreachable_optional';
+
+// 模式检查问题接口: start/end 为问题元素在模式字符串中的起止位置（end 不包含）
+export interface LintDiagnostic {
+  code: LintCode;
+  severity: LintSeverity;
+  message: string;
+  start: number;
+  end: number;
+}
+
+// 空白处理策略: strict 空白必须完全一致, lenient 任意一段连续空白（包括制表符、换行和全角空格）匹配模式中的一段空白,
+// ignore 模式字面量中的空白在输入中可以省略或重复
+export type WhitespacePolicy = 'strict' | 'lenient' | 'ignore';
+
+// 模式解析选项接口:
+// whitespace 未设置时参数前的单个空格可以省略，其他空白必须完全一致；为 strict 时参数前的空格也不能省略
+// normalize 为 true 时，字面量、多选字面量和文本类型化字面量的值按 NFKC 规范化（全角字符转换为半角等）
+export interface PatternParseOptions {
+  whitespace?: WhitespacePolicy;
+  normalize?: boolean;
+}
+
+// SegmentMatcher 选项接口（包含模式解析选项）:
+// strict 为 true 时，模式检查发现错误会在构造时抛出
+// caseInsensitive 为 true 时，字面量和多选字面量忽略大小写匹配，locale 指定比较使用的语言（默认为运行环境的语言）
+// normalize 为 true 时，文本段在匹配前也按 NFKC 规范化，剩余消息段仍保留原始文本，除非 normalizeRemaining 为 true
+// fullMatch 为 true 时，模式之后还有剩余消息段则匹配失败；剩余的空白文本默认允许，allowTrailingWhitespace 为 false 时也不允许
+export interface SegmentMatcherOptions extends PatternParseOptions {
+  strict?: boolean;
+  caseInsensitive?: boolean;
+  locale?: string;
+  normalizeRemaining?: boolean;
+  fullMatch?: boolean;
+  allowTrailingWhitespace?: boolean;
+}